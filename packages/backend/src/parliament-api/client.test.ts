@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import path from 'path';
+import { ParliamentApiClient } from './client';
+
+// Bills API pages of two for /Bills in sessions 40-42 and for amendments on
+// stages 201-204 of bill 3001, each set showing one way paging can go wrong
+const FIXTURE_DIR = path.resolve(__dirname, '../../fixtures/pagination');
+const PAGE_SIZE = 2;
+
+// Replaying skips the rate limit queue, so the tests don't wait on it
+const client = new ParliamentApiClient({ replayDir: FIXTURE_DIR });
+
+beforeEach(() => {
+  client.drainPaginationIssues();
+});
+
+describe('getBillsForSession', () => {
+  it('follows totalResults to a short final page without recording issues', async () => {
+    const bills = await client.getBillsForSession(40, PAGE_SIZE);
+
+    expect(bills.map(b => b.billId)).toEqual([4001, 4002, 4003, 4004, 4005]);
+    expect(client.drainPaginationIssues()).toEqual([]);
+  });
+
+  it('keeps one of each bill repeated across pages and records the duplicates', async () => {
+    const bills = await client.getBillsForSession(41, PAGE_SIZE);
+
+    expect(bills.map(b => b.billId)).toEqual([4101, 4102, 4103, 4104, 4105]);
+    expect(client.drainPaginationIssues()).toEqual([
+      expect.stringMatching(/^1 duplicate item\(s\) across pages of .*Session=41$/),
+    ]);
+  });
+
+  it('records a totalResults that changes while paging', async () => {
+    const bills = await client.getBillsForSession(42, PAGE_SIZE);
+
+    expect(bills).toHaveLength(4);
+    expect(client.drainPaginationIssues()).toEqual([
+      expect.stringMatching(/totalResults changed from 5 to 4/),
+    ]);
+  });
+});
+
+describe('getAmendments', () => {
+  it('follows totalResults to a short final page without recording issues', async () => {
+    const amendments = await client.getAmendments(3001, 201, PAGE_SIZE);
+
+    expect(amendments.map(a => a.amendmentId)).toEqual([6001, 6002, 6003]);
+    expect(client.drainPaginationIssues()).toEqual([]);
+  });
+
+  it('keeps one of each amendment repeated across pages and records the duplicates', async () => {
+    const amendments = await client.getAmendments(3001, 202, PAGE_SIZE);
+
+    expect(amendments.map(a => a.amendmentId)).toEqual([6011, 6012, 6013]);
+    expect(client.drainPaginationIssues()).toEqual([
+      expect.stringMatching(/^1 duplicate item\(s\) across pages of .*Stages\/202\/Amendments$/),
+    ]);
+  });
+
+  it('records a short page mid-list and pages that run out before totalResults', async () => {
+    const amendments = await client.getAmendments(3001, 203, PAGE_SIZE);
+
+    expect(amendments.map(a => a.amendmentId)).toEqual([6021, 6022, 6023]);
+    expect(client.drainPaginationIssues()).toEqual([
+      expect.stringMatching(/short page at Skip=2 .*got 1 of 2/),
+      expect.stringMatching(/stopped returning items after 3 of 5/),
+    ]);
+  });
+
+  it('records more amendments than the reported totalResults', async () => {
+    const amendments = await client.getAmendments(3001, 204, PAGE_SIZE);
+
+    expect(amendments).toHaveLength(2);
+    expect(client.drainPaginationIssues()).toEqual([
+      expect.stringMatching(/returned 2 items but reported totalResults 1/),
+    ]);
+  });
+});
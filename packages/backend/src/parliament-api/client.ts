@@ -2,11 +2,14 @@ import PQueue from 'p-queue';
 import type {
   ParliamentBill,
   ParliamentBillStage,
+  ParliamentBillType,
+  ParliamentStageType,
   ParliamentAmendment,
   ParliamentMember,
   ParliamentSession,
   PaginatedResponse,
 } from '@bill-data-app/shared';
+import { createRecordingFetch, createReplayFetch, type FetchFn } from './fixtures';
 
 const BILLS_API_BASE = 'https://bills-api.parliament.uk/api/v1';
 const MEMBERS_API_BASE = 'https://members-api.parliament.uk/api';
@@ -18,6 +21,45 @@ const queue = new PQueue({
   carryoverConcurrencyCount: true,
 });
 
+// Session discovery: probing starts from a session known to exist, and by
+// default we keep the latest three sessions
+const DEFAULT_SESSION_SEED = 37;
+const DEFAULT_SESSION_BACKFILL = 3;
+
+export interface SessionDiscoveryOptions {
+  // Session ID to start probing from (usually the latest one already stored)
+  fromSessionId?: number;
+  // Number of sessions to return, counting back from the latest
+  backfill?: number;
+}
+
+// A discovered session with the bill listing it was derived from, so callers needn't fetch it again
+export interface DiscoveredSession extends ParliamentSession {
+  bills: ParliamentBill[];
+}
+
+export interface ParliamentApiClientOptions {
+  // fetch implementation to use instead of the global fetch
+  fetch?: FetchFn;
+  // Recording mode: save every response as a fixture under this directory
+  recordDir?: string;
+  // Replay mode: serve responses from fixtures in this directory, without rate limiting
+  replayDir?: string;
+}
+
+// Page sizes for paginated Bills API endpoints
+const BILLS_PAGE_SIZE = 400;
+const STAGES_PAGE_SIZE = 100;
+const AMENDMENTS_PAGE_SIZE = 1000;
+const BILL_TYPES_PAGE_SIZE = 100;
+const STAGE_TYPES_PAGE_SIZE = 100;
+
+// Short or inconsistent pages seen since the last drain, for sync stats
+const paginationIssues: string[] = [];
+
+// HTTP requests made (including retries) since the last drain, for sync stats
+let requestCount = 0;
+
 // Exponential backoff configuration
 const MAX_RETRIES = 5;
 const INITIAL_BACKOFF_MS = 1000;
@@ -26,9 +68,10 @@ async function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-async function fetchWithRetry<T>(url: string, retries = 0): Promise<T> {
+async function fetchWithRetry<T>(fetchFn: FetchFn, url: string, retries = 0): Promise<T> {
   try {
-    const response = await fetch(url);
+    requestCount++;
+    const response = await fetchFn(url);
 
     if (response.status === 429) {
       if (retries >= MAX_RETRIES) {
@@ -37,7 +80,7 @@ async function fetchWithRetry<T>(url: string, retries = 0): Promise<T> {
       const backoffMs = INITIAL_BACKOFF_MS * Math.pow(2, retries);
       console.log(`Rate limited, backing off for ${backoffMs}ms (retry ${retries + 1}/${MAX_RETRIES})`);
       await sleep(backoffMs);
-      return fetchWithRetry<T>(url, retries + 1);
+      return fetchWithRetry<T>(fetchFn, url, retries + 1);
     }
 
     if (!response.ok) {
@@ -54,57 +97,207 @@ async function fetchWithRetry<T>(url: string, retries = 0): Promise<T> {
       const backoffMs = INITIAL_BACKOFF_MS * Math.pow(2, retries);
       console.log(`Network error, backing off for ${backoffMs}ms (retry ${retries + 1}/${MAX_RETRIES})`);
       await sleep(backoffMs);
-      return fetchWithRetry<T>(url, retries + 1);
+      return fetchWithRetry<T>(fetchFn, url, retries + 1);
     }
     throw error;
   }
 }
 
-function queuedFetch<T>(url: string): Promise<T> {
-  return queue.add(() => fetchWithRetry<T>(url), { throwOnTimeout: true }) as Promise<T>;
+function recordPaginationIssue(message: string): void {
+  console.warn(`  Pagination: ${message}`);
+  paginationIssues.push(message);
+}
+
+/**
+ * Fetch every page of a paginated Bills API endpoint, following totalResults.
+ * Items are de-duplicated by key, since records can shift between pages when
+ * the data changes mid-crawl. Short pages, a changing totalResults and totals
+ * that don't match what was returned are recorded as pagination issues.
+ */
+async function fetchAllPages<T>(
+  fetchJson: <R>(url: string) => Promise<R>,
+  url: string,
+  pageSize: number,
+  getKey: (item: T) => number
+): Promise<T[]> {
+  const separator = url.includes('?') ? '&' : '?';
+  const items = new Map<number, T>();
+  let expectedTotal: number | null = null;
+  let duplicates = 0;
+  let skip = 0;
+
+  while (true) {
+    const pageUrl = `${url}${separator}Skip=${skip}&Take=${pageSize}`;
+    const page = await fetchJson<PaginatedResponse<T>>(pageUrl);
+
+    if (expectedTotal !== null && page.totalResults !== expectedTotal) {
+      recordPaginationIssue(`totalResults changed from ${expectedTotal} to ${page.totalResults} while paging ${url}`);
+    }
+    expectedTotal = page.totalResults;
+
+    for (const item of page.items) {
+      const key = getKey(item);
+      if (items.has(key)) {
+        duplicates++;
+      }
+      items.set(key, item);
+    }
+    skip += page.items.length;
+
+    if (skip >= expectedTotal) {
+      break;
+    }
+    if (page.items.length === 0) {
+      recordPaginationIssue(`${url} stopped returning items after ${skip} of ${expectedTotal}`);
+      break;
+    }
+    if (page.items.length < pageSize) {
+      recordPaginationIssue(`short page at Skip=${skip - page.items.length} for ${url}: got ${page.items.length} of ${pageSize}`);
+    }
+  }
+
+  if (duplicates > 0) {
+    recordPaginationIssue(`${duplicates} duplicate item(s) across pages of ${url}`);
+  }
+  if (items.size > expectedTotal) {
+    recordPaginationIssue(`${url} returned ${items.size} items but reported totalResults ${expectedTotal}`);
+  }
+
+  return Array.from(items.values());
+}
+
+/**
+ * Estimate session metadata from the bills in it. Sitting dates of each bill's
+ * current stage (when that stage belongs to the session) bracket the session;
+ * bill update times are the fallback when no sittings are dated. The Bills API
+ * has no sessions endpoint, so the name and dates are approximations: stored
+ * sessions only take them for fields that are still empty (see syncSessions).
+ */
+function deriveSession(sessionId: number, bills: ParliamentBill[], isCurrent: boolean): ParliamentSession {
+  let dates: string[] = [];
+  for (const bill of bills) {
+    if (bill.currentStage?.sessionId !== sessionId) continue;
+    for (const sitting of bill.currentStage.stageSittings || []) {
+      if (sitting.date) {
+        dates.push(sitting.date);
+      }
+    }
+  }
+  if (dates.length === 0) {
+    dates = bills.map(b => b.lastUpdate);
+  }
+
+  const times = dates.map(d => new Date(d).getTime()).filter(t => !isNaN(t));
+  const start = new Date(Math.min(...times));
+  const end = new Date(Math.max(...times));
+  const startYear = start.getUTCFullYear();
+
+  return {
+    id: sessionId,
+    name: `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`,
+    startDate: start.toISOString().slice(0, 10),
+    endDate: isCurrent ? null : end.toISOString().slice(0, 10),
+  };
+}
+
+function queuedFetch<T>(fetchFn: FetchFn, url: string): Promise<T> {
+  return queue.add(() => fetchWithRetry<T>(fetchFn, url), { throwOnTimeout: true }) as Promise<T>;
 }
 
 export class ParliamentApiClient {
-  // Get all sessions
-  async getSessions(): Promise<ParliamentSession[]> {
-    // The Bills API doesn't have a dedicated sessions endpoint,
-    // so we'll use known session IDs based on actual API data
-    // Session 39 is the CURRENT session (59th Parliament, post-July 2024 election)
-    // Sessions 40 and 41 don't exist yet in the API
-    const sessions: ParliamentSession[] = [
-      { id: 39, name: '2024-25', startDate: '2024-07-17', endDate: null },
-      { id: 38, name: '2023-24', startDate: '2023-11-07', endDate: '2024-05-30' },
-      { id: 37, name: '2022-23', startDate: '2022-05-10', endDate: '2023-10-26' },
-    ];
+  private readonly fetchFn: FetchFn;
+  private readonly rateLimited: boolean;
+
+  constructor(options: ParliamentApiClientOptions = {}) {
+    let fetchFn: FetchFn = options.fetch ?? (url => fetch(url));
+    if (options.replayDir) {
+      fetchFn = createReplayFetch(options.replayDir);
+    }
+    if (options.recordDir) {
+      fetchFn = createRecordingFetch(fetchFn, options.recordDir);
+    }
+    this.fetchFn = fetchFn;
+    this.rateLimited = !options.replayDir;
+  }
+
+  // Fetch JSON through the rate-limited queue (skipped when replaying fixtures)
+  private fetchJson = <T>(url: string): Promise<T> => {
+    return this.rateLimited ? queuedFetch<T>(this.fetchFn, url) : fetchWithRetry<T>(this.fetchFn, url);
+  };
+
+  // Discover sessions from the Bills API, with each session's bills
+  async getSessions(options: SessionDiscoveryOptions = {}): Promise<DiscoveredSession[]> {
+    // The Bills API doesn't have a dedicated sessions endpoint, so we probe
+    // session IDs for bills: step down until we hit a session that exists,
+    // then step up until the next one is empty. The last one found is current.
+    let latestId = options.fromSessionId ?? DEFAULT_SESSION_SEED;
+    while (latestId > 1 && !(await this.sessionHasBills(latestId))) {
+      latestId--;
+    }
+    while (await this.sessionHasBills(latestId + 1)) {
+      latestId++;
+    }
+
+    const backfill = Math.max(1, options.backfill ?? DEFAULT_SESSION_BACKFILL);
+    const sessions: DiscoveredSession[] = [];
+    for (let id = latestId; id > latestId - backfill && id > 0; id--) {
+      const bills = await this.getBillsForSession(id);
+      if (bills.length === 0) {
+        continue;
+      }
+      sessions.push({ ...deriveSession(id, bills, id === latestId), bills });
+    }
     return sessions;
   }
 
-  // Get bills for a session
-  async getBillsForSession(sessionId: number, take = 400): Promise<ParliamentBill[]> {
-    const url = `${BILLS_API_BASE}/Bills?Session=${sessionId}&Take=${take}`;
-    const response = await queuedFetch<PaginatedResponse<ParliamentBill>>(url);
-    return response.items;
+  // Check whether the Bills API has any bills for a session
+  async sessionHasBills(sessionId: number): Promise<boolean> {
+    const url = `${BILLS_API_BASE}/Bills?Session=${sessionId}&Take=1`;
+    const response = await this.fetchJson<PaginatedResponse<ParliamentBill>>(url);
+    return response.totalResults > 0 || response.items.length > 0;
+  }
+
+  // Get all bills for a session
+  async getBillsForSession(sessionId: number, pageSize = BILLS_PAGE_SIZE): Promise<ParliamentBill[]> {
+    const url = `${BILLS_API_BASE}/Bills?Session=${sessionId}`;
+    return fetchAllPages<ParliamentBill>(this.fetchJson, url, pageSize, b => b.billId);
+  }
+
+  // Get all bill types (Government Bill, Private Members' Bill, ...)
+  async getBillTypes(pageSize = BILL_TYPES_PAGE_SIZE): Promise<ParliamentBillType[]> {
+    const url = `${BILLS_API_BASE}/BillTypes`;
+    return fetchAllPages<ParliamentBillType>(this.fetchJson, url, pageSize, t => t.id);
+  }
+
+  // Get all stage definitions (1st reading, Committee stage, ...)
+  async getStageTypes(pageSize = STAGE_TYPES_PAGE_SIZE): Promise<ParliamentStageType[]> {
+    const url = `${BILLS_API_BASE}/Stages`;
+    return fetchAllPages<ParliamentStageType>(this.fetchJson, url, pageSize, t => t.id);
+  }
+
+  // Get a single bill by ID, including its sponsors
+  async getBill(billId: number): Promise<ParliamentBill> {
+    const url = `${BILLS_API_BASE}/Bills/${billId}`;
+    return this.fetchJson<ParliamentBill>(url);
   }
 
   // Get all stages for a bill
-  async getBillStages(billId: number): Promise<ParliamentBillStage[]> {
+  async getBillStages(billId: number, pageSize = STAGES_PAGE_SIZE): Promise<ParliamentBillStage[]> {
     const url = `${BILLS_API_BASE}/Bills/${billId}/Stages`;
-    const response = await queuedFetch<PaginatedResponse<ParliamentBillStage>>(url);
-    return response.items;
+    return fetchAllPages<ParliamentBillStage>(this.fetchJson, url, pageSize, s => s.id);
   }
 
-  // Get amendments for a specific bill stage
-  async getAmendments(billId: number, stageId: number, take = 1000): Promise<ParliamentAmendment[]> {
-    const url = `${BILLS_API_BASE}/Bills/${billId}/Stages/${stageId}/Amendments?Take=${take}`;
-    const response = await queuedFetch<PaginatedResponse<ParliamentAmendment>>(url);
-    return response.items;
+  // Get all amendments for a specific bill stage
+  async getAmendments(billId: number, stageId: number, pageSize = AMENDMENTS_PAGE_SIZE): Promise<ParliamentAmendment[]> {
+    const url = `${BILLS_API_BASE}/Bills/${billId}/Stages/${stageId}/Amendments`;
+    return fetchAllPages<ParliamentAmendment>(this.fetchJson, url, pageSize, a => a.amendmentId);
   }
 
   // Get member details by ID
   async getMember(memberId: number): Promise<ParliamentMember | null> {
     try {
       const url = `${MEMBERS_API_BASE}/Members/${memberId}`;
-      const response = await queuedFetch<ParliamentMember>(url);
+      const response = await this.fetchJson<ParliamentMember>(url);
       return response;
     } catch (error) {
       console.warn(`Failed to fetch member ${memberId}:`, error);
@@ -115,7 +308,7 @@ export class ParliamentApiClient {
   // Search members by name
   async searchMembers(query: string, take = 20): Promise<ParliamentMember[]> {
     const url = `${MEMBERS_API_BASE}/Members/Search?Name=${encodeURIComponent(query)}&Take=${take}`;
-    const response = await queuedFetch<{ items: ParliamentMember[] }>(url);
+    const response = await this.fetchJson<{ items: ParliamentMember[] }>(url);
     return response.items;
   }
 
@@ -127,11 +320,27 @@ export class ParliamentApiClient {
     };
   }
 
+  // Take the pagination issues recorded since the last call
+  drainPaginationIssues(): string[] {
+    return paginationIssues.splice(0, paginationIssues.length);
+  }
+
+  // Take the number of requests made since the last call
+  drainRequestCount(): number {
+    const count = requestCount;
+    requestCount = 0;
+    return count;
+  }
+
   // Wait for all pending requests to complete
   async drain(): Promise<void> {
     await queue.onIdle();
   }
 }
 
-// Singleton instance
-export const parliamentApi = new ParliamentApiClient();
+// Singleton instance. PARLIAMENT_API_RECORD_DIR / PARLIAMENT_API_REPLAY_DIR
+// switch it into recording or replay mode for fixture-based runs.
+export const parliamentApi = new ParliamentApiClient({
+  recordDir: process.env.PARLIAMENT_API_RECORD_DIR || undefined,
+  replayDir: process.env.PARLIAMENT_API_REPLAY_DIR || undefined,
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createRecordingFetch, createReplayFetch, fixturePath } from './fixtures';
+
+describe('fixturePath', () => {
+  it('gives URLs that read the same after escaping different files', () => {
+    const urls = [
+      'https://bills-api.parliament.uk/api/v1/Members/Search?Name=a b',
+      'https://bills-api.parliament.uk/api/v1/Members/Search?Name=a_b',
+      'https://bills-api.parliament.uk/api/v1/Members/Search?Name=a%20b',
+    ];
+    const files = urls.map(url => fixturePath('dir', url));
+
+    expect(new Set(files).size).toBe(urls.length);
+  });
+
+  it('keeps long URLs distinct beyond the truncated name', () => {
+    const base = `https://bills-api.parliament.uk/api/v1/Bills?${'Session=1&'.repeat(30)}`;
+    const files = [`${base}Skip=0`, `${base}Skip=400`].map(url => path.basename(fixturePath('dir', url)));
+
+    expect(files[0]).not.toBe(files[1]);
+    expect(files[0].length).toBeLessThan(200);
+  });
+});
+
+describe('recording and replay', () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+  });
+
+  it('replays each recorded response from its own file', async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'fixtures-'));
+    const live = async (url: string) => new Response(JSON.stringify({ url }), { status: 200 });
+    const record = createRecordingFetch(live, dir);
+    const urls = ['https://example.test/a?x=1 2', 'https://example.test/a?x=1_2'];
+
+    for (const url of urls) {
+      await record(url);
+    }
+    expect(await readdir(dir)).toHaveLength(2);
+
+    const replay = createReplayFetch(dir);
+    for (const url of urls) {
+      expect(await (await replay(url)).json()).toEqual({ url });
+    }
+    await expect(replay('https://example.test/missing')).rejects.toThrow('No recorded fixture');
+  });
+});
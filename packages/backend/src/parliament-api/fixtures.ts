@@ -0,0 +1,81 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+
+// The subset of fetch the API client uses
+export type FetchFn = (url: string) => Promise<Response>;
+
+// A recorded API response as stored on disk
+interface Fixture {
+  url: string;
+  status: number;
+  body: unknown;
+}
+
+// Longest readable part of a fixture file name, keeping names within filesystem limits
+const MAX_NAME_LENGTH = 150;
+
+// One file per URL, named after the host, path and query so fixtures stay readable in diffs.
+// That part is lossy and truncated, so a hash of the full URL keeps distinct URLs apart.
+export function fixturePath(dir: string, url: string): string {
+  const name = url.replace(/^https?:\/\//, '').replace(/[^A-Za-z0-9.=&-]+/g, '_').slice(0, MAX_NAME_LENGTH);
+  const hash = createHash('sha1').update(url).digest('hex').slice(0, 12);
+  return path.join(dir, `${name}-${hash}.json`);
+}
+
+/**
+ * Wrap a fetch so every response is also written to `dir`. Non-JSON bodies
+ * are stored as null; the response is passed through unchanged.
+ */
+export function createRecordingFetch(fetchFn: FetchFn, dir: string): FetchFn {
+  let ready: Promise<unknown> | null = null;
+
+  return async (url: string) => {
+    ready ??= mkdir(dir, { recursive: true });
+    await ready;
+
+    const response = await fetchFn(url);
+    // Rate limit responses are retried by the client, so don't keep them
+    if (response.status === 429) {
+      return response;
+    }
+
+    const text = await response.text();
+    let body: unknown = null;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Leave body null for empty or non-JSON responses
+    }
+
+    const fixture: Fixture = { url, status: response.status, body };
+    await writeFile(fixturePath(dir, url), JSON.stringify(fixture, null, 2));
+
+    return new Response(text, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  };
+}
+
+/**
+ * A fetch that serves responses recorded by createRecordingFetch. Requests
+ * with no fixture fail loudly so a stale fixture set is easy to spot.
+ */
+export function createReplayFetch(dir: string): FetchFn {
+  return async (url: string) => {
+    const file = fixturePath(dir, url);
+    let fixture: Fixture;
+    try {
+      fixture = JSON.parse(await readFile(file, 'utf-8'));
+    } catch {
+      throw new Error(`No recorded fixture for ${url} (expected ${file})`);
+    }
+
+    return new Response(JSON.stringify(fixture.body), {
+      status: fixture.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  };
+}
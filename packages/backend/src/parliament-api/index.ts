@@ -1 +1,3 @@
 export { parliamentApi, ParliamentApiClient } from './client';
+export type { SessionDiscoveryOptions, ParliamentApiClientOptions, DiscoveredSession } from './client';
+export { createRecordingFetch, createReplayFetch, fixturePath, type FetchFn } from './fixtures';
@@ -1,79 +1,82 @@
 import { Router, type Router as RouterType } from 'express';
+import type { Prisma } from '@prisma/client';
 import { prisma } from '../services/db';
+import { parseAmendmentFilters, buildAmendmentWhere, buildStageFilter } from '../services/amendment-filters';
+import { STAGE_GROUPS, STAGE_GROUP_LABELS, loadStageGroupLookup, stageGroupParamError, type StageGroup } from '../services/stage-groups';
+import { getPartySummaries, type PartyCountBy } from '../services/party-stats';
+import { getPivotCube, PIVOT_DIMENSIONS, type PivotDimension } from '../services/amendment-pivot';
+import { searchAmendments, getSearchHighlights, type SearchHighlights } from '../services/amendment-search';
 
 const router: RouterType = Router();
 
-// GET /api/v1/amendments - Search amendments
+// Largest page GET / returns; clients page through bigger result sets
+const MAX_TAKE = 1000;
+
+// GET /api/v1/amendments - Search amendments (q for full-text search, ranked by relevance)
 router.get('/', async (req, res) => {
   try {
-    const memberId = req.query.memberId ? parseInt(req.query.memberId as string) : undefined;
-    const billId = req.query.billId ? parseInt(req.query.billId as string) : undefined;
-    const sessionId = req.query.sessionId ? parseInt(req.query.sessionId as string) : undefined;
-    const decision = req.query.decision as string | undefined;
-    const stage = req.query.stage as string | undefined;
-    const house = req.query.house as string | undefined;
-    const skip = parseInt(req.query.skip as string) || 0;
-    const take = parseInt(req.query.take as string) || 100;
-
-    // Build where clause
-    const where: any = {};
-
-    if (decision) {
-      where.decision = decision;
+    const stageGroupError = stageGroupParamError(req.query.stageGroup);
+    if (stageGroupError) {
+      res.status(400).json({ error: stageGroupError });
+      return;
     }
 
-    // Filter by member (through sponsors relationship)
-    if (memberId) {
-      where.sponsors = {
-        some: { memberId },
-      };
-    }
+    const filters = parseAmendmentFilters(req.query);
+    const skip = parseInt(req.query.skip as string) || 0;
+    const take = Math.min(parseInt(req.query.take as string) || 100, MAX_TAKE);
 
-    // Filter by bill, session, stage, or house (through billStage relationship)
-    if (billId || sessionId || stage || house) {
-      where.billStage = {};
-      if (billId) {
-        where.billStage.billId = billId;
-      }
-      if (sessionId) {
-        where.billStage.bill = { sessionId };
-      }
-      if (stage) {
-        where.billStage.description = stage;
-      }
-      if (house) {
-        where.billStage.house = house;
-      }
-    }
+    const q = (req.query.q as string | undefined)?.trim();
 
-    const [amendments, total] = await Promise.all([
-      prisma.amendment.findMany({
-        where,
-        skip,
-        take,
-        orderBy: { id: 'desc' },
+    const include = {
+      sponsors: {
+        orderBy: { sortOrder: 'asc' },
         include: {
-          sponsors: {
-            orderBy: { sortOrder: 'asc' },
-            include: {
-              member: true,
-            },
-          },
-          billStage: {
-            include: {
-              bill: {
-                select: {
-                  id: true,
-                  shortTitle: true,
-                  sessionId: true,
-                },
-              },
+          member: true,
+        },
+      },
+      billStage: {
+        include: {
+          bill: {
+            select: {
+              id: true,
+              shortTitle: true,
+              sessionId: true,
             },
           },
         },
-      }),
-      prisma.amendment.count({ where }),
-    ]);
+      },
+    } satisfies Prisma.AmendmentInclude;
+
+    let amendments;
+    let total: number;
+    let ranks: Map<number, number> | undefined;
+    let highlights: Map<number, SearchHighlights> | undefined;
+
+    if (q) {
+      // Full-text search: page by relevance, then load the matched rows in rank order
+      const result = await searchAmendments(q, filters, skip, take);
+      const [rows, snippets] = await Promise.all([
+        prisma.amendment.findMany({ where: { id: { in: result.ids } }, include }),
+        getSearchHighlights(q, result.ids),
+      ]);
+      const byId = new Map(rows.map(a => [a.id, a]));
+      amendments = result.ids.map(id => byId.get(id)).filter(a => a !== undefined);
+      total = result.total;
+      ranks = result.ranks;
+      highlights = snippets;
+    } else {
+      const where = await buildAmendmentWhere(filters);
+      [amendments, total] = await Promise.all([
+        prisma.amendment.findMany({
+          where,
+          skip,
+          take,
+          orderBy: { id: 'desc' },
+          include,
+        }),
+        prisma.amendment.count({ where }),
+      ]);
+    }
 
     res.json({
       items: amendments.map(a => ({
@@ -95,6 +98,10 @@ router.get('/', async (req, res) => {
           isLead: s.isLead,
           sortOrder: s.sortOrder,
         })),
+        ...(q && {
+          rank: ranks?.get(a.id) ?? 0,
+          highlights: highlights?.get(a.id) ?? null,
+        }),
       })),
       total,
       skip,
@@ -109,18 +116,28 @@ router.get('/', async (req, res) => {
 // GET /api/v1/amendments/stats - Get amendment statistics
 router.get('/stats', async (req, res) => {
   try {
+    const stageGroupError = stageGroupParamError(req.query.stageGroup);
+    if (stageGroupError) {
+      res.status(400).json({ error: stageGroupError });
+      return;
+    }
+
     const groupBy = req.query.groupBy as string || 'bill';
     const sessionId = req.query.sessionId ? parseInt(req.query.sessionId as string) : undefined;
     const memberId = req.query.memberId ? parseInt(req.query.memberId as string) : undefined;
     const house = req.query.house as string | undefined;
+    const stageTypeFilter = await buildStageFilter({
+      stageTypeId: req.query.stageTypeId ? parseInt(req.query.stageTypeId as string) : undefined,
+      stageGroup: req.query.stageGroup as StageGroup | undefined,
+    });
 
     // Build where clause for filtering
     const baseWhere: any = {};
     if (memberId) {
       baseWhere.sponsors = { some: { memberId } };
     }
-    if (sessionId || house) {
-      baseWhere.billStage = {};
+    if (sessionId || house || Object.keys(stageTypeFilter).length > 0) {
+      baseWhere.billStage = { ...stageTypeFilter };
       if (sessionId) {
         baseWhere.billStage.bill = { sessionId };
       }
@@ -129,6 +146,12 @@ router.get('/stats', async (req, res) => {
       }
     }
 
+    // Stage filters, for groupings that load stages directly
+    const stageFilter: any = { ...stageTypeFilter };
+    if (house) {
+      stageFilter.house = house;
+    }
+
     if (groupBy === 'bill') {
       // Group by bill
       const bills = await prisma.bill.findMany({
@@ -137,7 +160,7 @@ router.get('/stats', async (req, res) => {
           id: true,
           shortTitle: true,
           stages: {
-            where: house ? { house } : undefined,
+            where: stageFilter,
             select: {
               id: true,
               description: true,
@@ -221,13 +244,10 @@ router.get('/stats', async (req, res) => {
       res.json(result);
     } else if (groupBy === 'stage') {
       // Group by stage type
-      const stageWhere: any = {};
+      const stageWhere: any = { ...stageFilter };
       if (sessionId) {
         stageWhere.bill = { sessionId };
       }
-      if (house) {
-        stageWhere.house = house;
-      }
       const stages = await prisma.billStage.findMany({
         where: Object.keys(stageWhere).length > 0 ? stageWhere : undefined,
         select: {
@@ -263,9 +283,64 @@ router.get('/stats', async (req, res) => {
         .filter(s => s.count > 0)
         .sort((a, b) => b.count - a.count);
 
+      res.json(result);
+    } else if (groupBy === 'stageGroup') {
+      // Group by normalised stage group, merging both Houses' variants of a stage
+      const stageWhere: any = { ...stageFilter };
+      if (sessionId) {
+        stageWhere.bill = { sessionId };
+      }
+      const [stageCounts, stageGroupOf] = await Promise.all([
+        prisma.billStage.findMany({
+          where: stageWhere,
+          select: {
+            stageTypeId: true,
+            description: true,
+            _count: {
+              select: { amendments: memberId ? { where: { sponsors: { some: { memberId } } } } : true },
+            },
+          },
+        }),
+        loadStageGroupLookup(),
+      ]);
+
+      const counts = new Map<string, number>();
+      for (const s of stageCounts) {
+        const group = stageGroupOf(s) ?? 'other';
+        counts.set(group, (counts.get(group) ?? 0) + s._count.amendments);
+      }
+
+      // Groups in parliamentary order, then stages outside the main sequence
+      const order: string[] = [...STAGE_GROUPS, 'other'];
+      const result = Array.from(counts.entries())
+        .filter(([, count]) => count > 0)
+        .sort((a, b) => order.indexOf(a[0]) - order.indexOf(b[0]))
+        .map(([group, count]) => ({
+          groupKey: group,
+          groupLabel: STAGE_GROUP_LABELS[group as StageGroup] ?? 'Other stages',
+          count,
+        }));
+
+      res.json(result);
+    } else if (groupBy === 'party') {
+      // Group by sponsor party, counting each amendment once per party (or for its lead sponsor's party only)
+      const countBy: PartyCountBy = req.query.countBy === 'lead' ? 'lead' : 'amendment';
+      const parties = await getPartySummaries(baseWhere, countBy);
+
+      const result = parties.map(p => ({
+        groupKey: p.party,
+        groupLabel: p.party,
+        count: p.tabled,
+        metadata: {
+          partyColour: p.partyColour,
+          agreed: p.agreed,
+          activeMembers: p.activeMembers,
+        },
+      }));
+
       res.json(result);
     } else {
-      res.status(400).json({ error: 'Invalid groupBy parameter. Use: bill, decision, member, or stage' });
+      res.status(400).json({ error: 'Invalid groupBy parameter. Use: bill, decision, member, party, stage, or stageGroup' });
     }
   } catch (error) {
     console.error('Error fetching amendment stats:', error);
@@ -273,4 +348,183 @@ router.get('/stats', async (req, res) => {
   }
 });
 
+// GET /api/v1/amendments/pivot - Amendment counts over two or three dimensions, as a sparse cube
+router.get('/pivot', async (req, res) => {
+  try {
+    const dimensions = ((req.query.dimensions as string) || '')
+      .split(',')
+      .map(d => d.trim())
+      .filter(Boolean) as PivotDimension[];
+
+    if (
+      dimensions.length < 2 ||
+      dimensions.length > 3 ||
+      new Set(dimensions).size !== dimensions.length ||
+      dimensions.some(d => !PIVOT_DIMENSIONS.includes(d))
+    ) {
+      res.status(400).json({
+        error: `dimensions must be two or three distinct values from: ${PIVOT_DIMENSIONS.join(', ')}`,
+      });
+      return;
+    }
+    const stageGroupError = stageGroupParamError(req.query.stageGroup);
+    if (stageGroupError) {
+      res.status(400).json({ error: stageGroupError });
+      return;
+    }
+
+    // The cube is built in memory, so it is limited to one session or bill
+    const filters = parseAmendmentFilters(req.query);
+    if (!filters.sessionId && !filters.billId) {
+      res.status(400).json({ error: 'Provide sessionId or billId' });
+      return;
+    }
+
+    const where = await buildAmendmentWhere(filters);
+    const countBy: PartyCountBy = req.query.countBy === 'lead' ? 'lead' : 'amendment';
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+
+    const cube = await getPivotCube(dimensions, where, countBy, limit && limit > 0 ? limit : undefined);
+    res.json({ countBy, ...cube });
+  } catch (error) {
+    console.error('Error fetching amendment pivot:', error);
+    res.status(500).json({ error: 'Failed to fetch amendment pivot' });
+  }
+});
+
+// GET /api/v1/amendments/:id - Get amendment details
+router.get('/:id', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid amendment ID' });
+    }
+
+    const amendment = await prisma.amendment.findUnique({
+      where: { id },
+      include: {
+        sponsors: {
+          orderBy: { sortOrder: 'asc' },
+          include: {
+            member: true,
+          },
+        },
+        billStage: {
+          include: {
+            sittings: {
+              orderBy: { date: 'asc' },
+            },
+            bill: {
+              include: {
+                session: {
+                  select: { id: true, name: true },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!amendment) {
+      return res.status(404).json({ error: 'Amendment not found' });
+    }
+
+    const { bill, sittings, ...stage } = amendment.billStage;
+
+    return res.json({
+      id: amendment.id,
+      amendmentNumber: amendment.amendmentNumber,
+      dNum: amendment.dNum,
+      amendmentType: amendment.amendmentType,
+      decision: amendment.decision,
+      decisionExplanation: amendment.decisionExplanation,
+      summaryText: amendment.summaryText,
+      marshalledListText: amendment.marshalledListText,
+      firstSeenAt: amendment.firstSeenAt,
+      bill: {
+        id: bill.id,
+        shortTitle: bill.shortTitle,
+        longTitle: bill.longTitle,
+        sessionId: bill.sessionId,
+        sessionName: bill.session.name,
+        originatingHouse: bill.originatingHouse,
+        currentHouse: bill.currentHouse,
+      },
+      billStage: {
+        id: stage.id,
+        description: stage.description,
+        house: stage.house,
+        sortOrder: stage.sortOrder,
+        sittings: sittings.map(s => ({
+          id: s.id,
+          date: s.date,
+        })),
+      },
+      sponsors: amendment.sponsors.map(s => ({
+        ...s.member,
+        isLead: s.isLead,
+        sortOrder: s.sortOrder,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching amendment:', error);
+    return res.status(500).json({ error: 'Failed to fetch amendment' });
+  }
+});
+
+// GET /api/v1/amendments/:id/history - Field-level change history from sync runs
+router.get('/:id/history', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid amendment ID' });
+    }
+
+    const changes = await prisma.amendmentChange.findMany({
+      where: { amendmentId: id },
+      orderBy: { id: 'asc' },
+      include: {
+        syncLog: {
+          select: { id: true, type: true, startedAt: true },
+        },
+      },
+    });
+
+    // Resolve members named in sponsor changes
+    const memberIds = new Set<number>();
+    for (const c of changes) {
+      if (c.field === 'sponsors') {
+        memberIds.add(parseInt((c.newValue ?? c.oldValue) as string));
+      }
+    }
+    const members = await prisma.member.findMany({
+      where: { id: { in: Array.from(memberIds) } },
+      select: { id: true, displayName: true, party: true, partyColour: true },
+    });
+    const membersById = new Map(members.map(m => [m.id, m]));
+
+    return res.json({
+      amendmentId: id,
+      items: changes.map(c => ({
+        id: c.id,
+        changeType: c.changeType,
+        field: c.field,
+        oldValue: c.oldValue,
+        newValue: c.newValue,
+        changedAt: c.changedAt,
+        syncLog: c.syncLog,
+        member: c.field === 'sponsors'
+          ? membersById.get(parseInt((c.newValue ?? c.oldValue) as string)) || null
+          : undefined,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching amendment history:', error);
+    return res.status(500).json({ error: 'Failed to fetch amendment history' });
+  }
+});
+
 export default router;
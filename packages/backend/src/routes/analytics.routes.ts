@@ -0,0 +1,73 @@
+import { Router, type Router as RouterType, type Request } from 'express';
+import {
+  getBillPassages,
+  getPassageDistributions,
+  type PassageFilters,
+  type PassageGroupBy,
+  type PassageMetric,
+} from '../services/bill-passage';
+import { STAGE_GROUPS } from '../services/stage-groups';
+
+const router: RouterType = Router();
+
+const METRICS: string[] = ['royalAssent', ...STAGE_GROUPS];
+const GROUP_BYS: string[] = ['none', 'originatingHouse', 'billType'];
+
+function parsePassageFilters(query: Request['query']): PassageFilters {
+  return {
+    sessionId: query.sessionId ? parseInt(query.sessionId as string) : undefined,
+    originatingHouse: query.originatingHouse as string | undefined,
+    billTypeId: query.billType ? parseInt(query.billType as string) : undefined,
+    actsOnly: query.actsOnly === 'true',
+  };
+}
+
+// GET /api/v1/analytics/bill-passage - Per-bill stage durations and time from first reading to Royal Assent
+router.get('/bill-passage', async (req, res) => {
+  try {
+    const skip = parseInt(req.query.skip as string) || 0;
+    const take = parseInt(req.query.take as string) || 100;
+
+    const passages = await getBillPassages(parsePassageFilters(req.query));
+
+    res.json({
+      items: passages.slice(skip, skip + take),
+      total: passages.length,
+      skip,
+      take,
+    });
+  } catch (error) {
+    console.error('Error fetching bill passage:', error);
+    res.status(500).json({ error: 'Failed to fetch bill passage' });
+  }
+});
+
+// GET /api/v1/analytics/bill-passage/distributions - Per-session distributions of a passage metric
+router.get('/bill-passage/distributions', async (req, res) => {
+  try {
+    const metric = (req.query.metric as string) || 'royalAssent';
+    const groupBy = (req.query.groupBy as string) || 'originatingHouse';
+
+    if (!METRICS.includes(metric)) {
+      res.status(400).json({ error: `Invalid metric. Use: ${METRICS.join(', ')}` });
+      return;
+    }
+    if (!GROUP_BYS.includes(groupBy)) {
+      res.status(400).json({ error: `Invalid groupBy. Use: ${GROUP_BYS.join(', ')}` });
+      return;
+    }
+
+    const items = await getPassageDistributions(
+      parsePassageFilters(req.query),
+      metric as PassageMetric,
+      groupBy as PassageGroupBy
+    );
+
+    res.json({ metric, groupBy, items });
+  } catch (error) {
+    console.error('Error fetching bill passage distributions:', error);
+    res.status(500).json({ error: 'Failed to fetch bill passage distributions' });
+  }
+});
+
+export default router;
@@ -1,12 +1,35 @@
 import { Router, type Router as RouterType } from 'express';
+import type { Prisma } from '@prisma/client';
 import { prisma } from '../services/db';
+import { parsePingPongRef } from '../services/ping-pong';
 
 const router: RouterType = Router();
 
+// Bill sponsors as returned by the bills endpoints: a member, or an organisation for private bills
+const sponsorInclude = {
+  orderBy: { sortOrder: 'asc' },
+  include: {
+    member: {
+      select: { id: true, displayName: true, party: true, partyColour: true, house: true },
+    },
+  },
+} satisfies Prisma.Bill$sponsorsArgs;
+
+function formatSponsor(sponsor: Prisma.BillSponsorGetPayload<{ include: typeof sponsorInclude.include }>) {
+  return {
+    memberId: sponsor.memberId,
+    organisationName: sponsor.organisationName,
+    sortOrder: sponsor.sortOrder,
+    member: sponsor.member,
+  };
+}
+
 // GET /api/v1/bills - List bills with optional filtering
 router.get('/', async (req, res) => {
   try {
     const sessionId = req.query.sessionId ? parseInt(req.query.sessionId as string) : undefined;
+    const billType = req.query.billType ? parseInt(req.query.billType as string) : undefined;
+    const sponsorMemberId = req.query.sponsorMemberId ? parseInt(req.query.sponsorMemberId as string) : undefined;
     const skip = parseInt(req.query.skip as string) || 0;
     const take = parseInt(req.query.take as string) || 100;
 
@@ -19,6 +42,14 @@ router.get('/', async (req, res) => {
       where.sessionId = sessionId;
     }
 
+    if (billType) {
+      where.billTypeId = billType;
+    }
+
+    if (sponsorMemberId) {
+      where.sponsors = { some: { memberId: sponsorMemberId } };
+    }
+
     // Apply status filter
     switch (status) {
       case 'active':
@@ -48,6 +79,10 @@ router.get('/', async (req, res) => {
           session: {
             select: { name: true },
           },
+          billType: {
+            select: { id: true, name: true, category: true },
+          },
+          sponsors: sponsorInclude,
           _count: {
             select: { stages: true },
           },
@@ -78,6 +113,8 @@ router.get('/', async (req, res) => {
         isDefeated: bill.isDefeated,
         isAct: bill.isAct,
         lastUpdate: bill.lastUpdate,
+        billType: bill.billType,
+        sponsors: bill.sponsors.map(formatSponsor),
         stageCount: bill._count.stages,
         amendmentCount: bill.stages.reduce((sum, s) => sum + s._count.amendments, 0),
       })),
@@ -91,6 +128,31 @@ router.get('/', async (req, res) => {
   }
 });
 
+// GET /api/v1/bills/types - List bill types with their bill counts
+router.get('/types', async (req, res) => {
+  try {
+    const billTypes = await prisma.billType.findMany({
+      orderBy: [{ category: 'asc' }, { name: 'asc' }],
+      include: {
+        _count: {
+          select: { bills: true },
+        },
+      },
+    });
+
+    res.json(billTypes.map(t => ({
+      id: t.id,
+      name: t.name,
+      category: t.category,
+      description: t.description,
+      billCount: t._count.bills,
+    })));
+  } catch (error) {
+    console.error('Error fetching bill types:', error);
+    res.status(500).json({ error: 'Failed to fetch bill types' });
+  }
+});
+
 // GET /api/v1/bills/:id - Get bill details
 router.get('/:id', async (req, res) => {
   try {
@@ -100,9 +162,14 @@ router.get('/:id', async (req, res) => {
       where: { id },
       include: {
         session: true,
+        billType: true,
+        sponsors: sponsorInclude,
         stages: {
           orderBy: { sortOrder: 'asc' },
           include: {
+            sittings: {
+              orderBy: { date: 'asc' },
+            },
             _count: {
               select: { amendments: true },
             },
@@ -115,11 +182,45 @@ router.get('/:id', async (req, res) => {
       return res.status(404).json({ error: 'Bill not found' });
     }
 
+    // Decision breakdown per stage, and the session a carry-over bill started in
+    const [decisions, introducedSession] = await Promise.all([
+      prisma.amendment.groupBy({
+        by: ['billStageId', 'decision'],
+        where: { billStage: { billId: id } },
+        _count: { id: true },
+      }),
+      bill.introducedSessionId !== null && bill.introducedSessionId !== bill.sessionId
+        ? prisma.session.findUnique({
+            where: { id: bill.introducedSessionId },
+            select: { id: true, name: true },
+          })
+        : Promise.resolve(null),
+    ]);
+
+    const decisionsByStage = new Map<number, Record<string, number>>();
+    for (const d of decisions) {
+      const breakdown = decisionsByStage.get(d.billStageId) || {};
+      breakdown[d.decision] = d._count.id;
+      decisionsByStage.set(d.billStageId, breakdown);
+    }
+
+    const isCarryOver = bill.introducedSessionId !== null && bill.introducedSessionId !== bill.sessionId;
+
     return res.json({
       ...bill,
+      sponsors: bill.sponsors.map(formatSponsor),
+      isCarryOver,
+      introducedSession: isCarryOver
+        ? introducedSession || { id: bill.introducedSessionId, name: null }
+        : null,
       stages: bill.stages.map(stage => ({
         ...stage,
         amendmentCount: stage._count.amendments,
+        decisionBreakdown: decisionsByStage.get(stage.id) || {},
+        sittings: stage.sittings.map(s => ({
+          id: s.id,
+          date: s.date,
+        })),
       })),
     });
   } catch (error) {
@@ -128,6 +229,94 @@ router.get('/:id', async (req, res) => {
   }
 });
 
+// GET /api/v1/bills/:id/ping-pong - Ping-pong rounds with their motions and amendments, and threads linking them
+router.get('/:id/ping-pong', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid bill ID' });
+      return;
+    }
+
+    const bill = await prisma.bill.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        shortTitle: true,
+        stages: {
+          where: { pingPongRound: { not: null } },
+          orderBy: { pingPongRound: 'asc' },
+          include: {
+            sittings: {
+              orderBy: { date: 'asc' },
+            },
+            amendments: {
+              orderBy: { id: 'asc' },
+              include: {
+                sponsors: {
+                  orderBy: { sortOrder: 'asc' },
+                  include: {
+                    member: {
+                      select: { id: true, displayName: true, party: true, partyColour: true },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!bill) {
+      res.status(404).json({ error: 'Bill not found' });
+      return;
+    }
+
+    // Items sharing an amendment number, in round order
+    const threads = new Map<string, { thread: string; label: string; amendmentIds: number[] }>();
+    for (const stage of bill.stages) {
+      for (const amendment of stage.amendments) {
+        const ref = parsePingPongRef(amendment.pingPongRef);
+        if (!ref) continue;
+        const thread = threads.get(ref.thread) ?? { thread: ref.thread, label: ref.label, amendmentIds: [] };
+        thread.amendmentIds.push(amendment.id);
+        threads.set(ref.thread, thread);
+      }
+    }
+
+    res.json({
+      billId: bill.id,
+      shortTitle: bill.shortTitle,
+      rounds: bill.stages.length,
+      stages: bill.stages.map(stage => ({
+        round: stage.pingPongRound,
+        billStageId: stage.id,
+        description: stage.description,
+        house: stage.house,
+        sittings: stage.sittings.map(s => ({ id: s.id, date: s.date })),
+        items: stage.amendments.map(a => ({
+          id: a.id,
+          dNum: a.dNum,
+          amendmentNumber: a.amendmentNumber,
+          amendmentType: a.amendmentType,
+          decision: a.decision,
+          decisionExplanation: a.decisionExplanation,
+          summaryText: a.summaryText,
+          pingPongRef: a.pingPongRef,
+          respondsToId: a.respondsToId,
+          sponsors: a.sponsors.map(s => ({ ...s.member, isLead: s.isLead })),
+        })),
+      })),
+      threads: [...threads.values()].sort((a, b) => parseInt(a.thread) - parseInt(b.thread)),
+    });
+  } catch (error) {
+    console.error('Error fetching ping-pong:', error);
+    res.status(500).json({ error: 'Failed to fetch ping-pong' });
+  }
+});
+
 // GET /api/v1/bills/:id/stages/:stageId/amendments - Get amendments for a stage
 router.get('/:id/stages/:stageId/amendments', async (req, res) => {
   try {
@@ -0,0 +1,329 @@
+import { Router, type Router as RouterType } from 'express';
+import { prisma } from '../services/db';
+
+const router: RouterType = Router();
+
+interface ChangeEvent {
+  changeType: string;
+  changedAt: Date;
+  fields: string[];
+}
+
+/**
+ * Collapse the change events for one record into a single entry.
+ * A record removed in the window is 'removed', one first seen in the window
+ * is 'created', and anything else is 'updated' with the union of its fields.
+ */
+function collapse(events: ChangeEvent[]) {
+  const last = events[events.length - 1];
+  const changeType = last.changeType === 'removed'
+    ? 'removed'
+    : events.some(e => e.changeType === 'created') ? 'created' : 'updated';
+  const fields = new Set<string>();
+  for (const e of events) {
+    for (const f of e.fields) fields.add(f);
+  }
+  return {
+    changeType,
+    fields: changeType === 'updated' ? Array.from(fields) : [],
+    lastChangedAt: last.changedAt,
+  };
+}
+
+function groupBy<T>(items: T[], key: (item: T) => number): Map<number, T[]> {
+  const groups = new Map<number, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    const existing = groups.get(k);
+    if (existing) {
+      existing.push(item);
+    } else {
+      groups.set(k, [item]);
+    }
+  }
+  return groups;
+}
+
+// Records per list per request
+const DEFAULT_TAKE = 100;
+const MAX_TAKE = 1000;
+
+// The first `take` of up to take + 1 rows, and the last one kept when there were more
+function splitPage<T>(rows: T[], take: number): { items: T[]; next: T | null } {
+  return rows.length > take ? { items: rows.slice(0, take), next: rows[take - 1] } : { items: rows, next: null };
+}
+
+// GET /api/v1/changes - Bills, stages, amendments and sponsorships changed since a sync run or time
+router.get('/', async (req, res) => {
+  try {
+    const since = req.query.since as string | undefined;
+    const sessionId = req.query.sessionId ? parseInt(req.query.sessionId as string) : undefined;
+    const billId = req.query.billId ? parseInt(req.query.billId as string) : undefined;
+    const house = req.query.house as string | undefined;
+    const memberId = req.query.memberId ? parseInt(req.query.memberId as string) : undefined;
+    const take = Math.min(parseInt(req.query.take as string) || DEFAULT_TAKE, MAX_TAKE);
+    const cursors = {
+      bills: parseInt(req.query.billsAfter as string) || undefined,
+      stages: parseInt(req.query.stagesAfter as string) || undefined,
+      amendments: parseInt(req.query.amendmentsAfter as string) || undefined,
+      sponsorships: parseInt(req.query.sponsorshipsAfter as string) || undefined,
+    };
+
+    // `since` is either a sync log ID (changes from later runs) or a timestamp.
+    // Without it, return the changes made by the latest completed sync.
+    let windowWhere: any;
+    if (!since) {
+      const lastSync = await prisma.syncLog.findFirst({
+        where: { status: 'completed' },
+        orderBy: { id: 'desc' },
+      });
+      windowWhere = { syncLogId: { gte: lastSync?.id ?? 0 } };
+    } else if (/^\d+$/.test(since)) {
+      windowWhere = { syncLogId: { gt: parseInt(since) } };
+    } else {
+      const sinceDate = new Date(since);
+      if (isNaN(sinceDate.getTime())) {
+        return res.status(400).json({ error: 'since must be a sync log ID or an ISO timestamp' });
+      }
+      windowWhere = { changedAt: { gt: sinceDate } };
+    }
+
+    // Restrict to bills in the session, and to stages in the house
+    let billIds: number[] | undefined;
+    if (sessionId) {
+      const bills = await prisma.bill.findMany({
+        where: { sessionId, ...(billId && { id: billId }) },
+        select: { id: true },
+      });
+      billIds = bills.map(b => b.id);
+    } else if (billId) {
+      billIds = [billId];
+    }
+    let stageIds: number[] | undefined;
+    if (house) {
+      const stages = await prisma.billStage.findMany({
+        where: { house, ...(billIds && { billId: { in: billIds } }) },
+        select: { id: true },
+      });
+      stageIds = stages.map(s => s.id);
+    }
+
+    const billChangeWhere: any = { ...windowWhere };
+    const amendmentChangeWhere: any = { ...windowWhere };
+    if (billIds) {
+      billChangeWhere.billId = { in: billIds };
+      amendmentChangeWhere.billId = { in: billIds };
+    }
+    if (stageIds) {
+      amendmentChangeWhere.billStageId = { in: stageIds };
+    }
+
+    // Member filter: only amendment and sponsorship changes involve members.
+    // Amendments count if the member sponsors them now or ever did, so that
+    // removed amendments still show up.
+    if (memberId) {
+      const [sponsored, everSponsored] = await Promise.all([
+        prisma.amendmentSponsor.findMany({
+          where: { memberId },
+          select: { amendmentId: true },
+        }),
+        prisma.amendmentChange.findMany({
+          where: { field: 'sponsors', newValue: memberId.toString() },
+          select: { amendmentId: true },
+          distinct: ['amendmentId'],
+        }),
+      ]);
+      amendmentChangeWhere.amendmentId = {
+        in: Array.from(new Set([...sponsored, ...everSponsored].map(s => s.amendmentId))),
+      };
+    }
+
+    // Each list pages through its records by ID; only the page's events are loaded
+    const billWhere = { AND: [billChangeWhere, { billStageId: null }, cursors.bills ? { billId: { gt: cursors.bills } } : {}] };
+    const stageWhere = {
+      AND: [
+        billChangeWhere,
+        { billStageId: stageIds ? { in: stageIds } : { not: null } },
+        cursors.stages ? { billStageId: { gt: cursors.stages } } : {},
+      ],
+    };
+    const amendmentWhere = {
+      AND: [
+        amendmentChangeWhere,
+        { OR: [{ field: null }, { field: { not: 'sponsors' } }] },
+        cursors.amendments ? { amendmentId: { gt: cursors.amendments } } : {},
+      ],
+    };
+    const member = memberId?.toString();
+    const sponsorshipWhere = {
+      AND: [
+        amendmentChangeWhere,
+        { field: 'sponsors' },
+        member ? { OR: [{ newValue: member }, { oldValue: member }] } : {},
+        cursors.sponsorships ? { id: { gt: cursors.sponsorships } } : {},
+      ],
+    };
+
+    const [billGroups, stageGroups, amendmentGroups, sponsorEventRows, syncRuns] = await Promise.all([
+      // Bill-level changes have no stage, so the house filter leaves none
+      memberId || house
+        ? Promise.resolve([])
+        : prisma.billChange.groupBy({ by: ['billId'], where: billWhere, orderBy: { billId: 'asc' }, take: take + 1 }),
+      memberId
+        ? Promise.resolve([])
+        : prisma.billChange.groupBy({ by: ['billStageId'], where: stageWhere, orderBy: { billStageId: 'asc' }, take: take + 1 }),
+      prisma.amendmentChange.groupBy({ by: ['amendmentId'], where: amendmentWhere, orderBy: { amendmentId: 'asc' }, take: take + 1 }),
+      prisma.amendmentChange.findMany({ where: sponsorshipWhere, orderBy: { id: 'asc' }, take: take + 1 }),
+      prisma.syncLog.findMany({
+        where: since && !/^\d+$/.test(since)
+          ? { startedAt: { gt: windowWhere.changedAt.gt } }
+          : { id: windowWhere.syncLogId },
+        orderBy: { id: 'asc' },
+        select: { id: true, type: true, status: true, startedAt: true, completedAt: true },
+      }),
+    ]);
+
+    const billPage = splitPage(billGroups.map(g => g.billId), take);
+    const stagePage = splitPage(stageGroups.map(g => g.billStageId as number), take);
+    const amendmentPage = splitPage(amendmentGroups.map(g => g.amendmentId), take);
+    const sponsorPage = splitPage(sponsorEventRows, take);
+    const sponsorEvents = sponsorPage.items;
+
+    const [billEvents, stageEvents, amendmentEvents] = await Promise.all([
+      billPage.items.length > 0
+        ? prisma.billChange.findMany({
+            where: { AND: [billWhere, { billId: { in: billPage.items } }] },
+            orderBy: { id: 'asc' },
+          })
+        : Promise.resolve([]),
+      stagePage.items.length > 0
+        ? prisma.billChange.findMany({
+            where: { AND: [stageWhere, { billStageId: { in: stagePage.items } }] },
+            orderBy: { id: 'asc' },
+          })
+        : Promise.resolve([]),
+      amendmentPage.items.length > 0
+        ? prisma.amendmentChange.findMany({
+            where: { AND: [amendmentWhere, { amendmentId: { in: amendmentPage.items } }] },
+            orderBy: { id: 'asc' },
+          })
+        : Promise.resolve([]),
+    ]);
+    const billChanges = [...billEvents, ...stageEvents];
+    const amendmentChanges = [...amendmentEvents, ...sponsorEvents];
+
+    const toEvent = (c: { changeType: string; changedAt: Date; fields?: string | null; field?: string | null }) => ({
+      changeType: c.changeType,
+      changedAt: c.changedAt,
+      fields: c.fields ? c.fields.split(',') : c.field ? [c.field] : [],
+    });
+
+    // Look up labels for everything referenced
+    const referencedBillIds = new Set<number>();
+    const referencedStageIds = new Set<number>();
+    for (const c of [...billChanges, ...amendmentChanges]) {
+      if (c.billId !== null) referencedBillIds.add(c.billId);
+      if (c.billStageId !== null) referencedStageIds.add(c.billStageId);
+    }
+    const sponsorMemberIds = new Set(
+      sponsorEvents.map(c => parseInt((c.newValue ?? c.oldValue) as string))
+    );
+    const [bills, stages, amendments, members] = await Promise.all([
+      prisma.bill.findMany({
+        where: { id: { in: Array.from(referencedBillIds) } },
+        select: { id: true, shortTitle: true, sessionId: true },
+      }),
+      prisma.billStage.findMany({
+        where: { id: { in: Array.from(referencedStageIds) } },
+        select: { id: true, description: true, house: true },
+      }),
+      prisma.amendment.findMany({
+        where: { id: { in: Array.from(new Set(amendmentChanges.map(c => c.amendmentId))) } },
+        select: { id: true, dNum: true, decision: true },
+      }),
+      prisma.member.findMany({
+        where: { id: { in: Array.from(sponsorMemberIds) } },
+        select: { id: true, displayName: true, party: true, partyColour: true },
+      }),
+    ]);
+    const billsById = new Map(bills.map(b => [b.id, b]));
+    const stagesById = new Map(stages.map(s => [s.id, s]));
+    const amendmentsById = new Map(amendments.map(a => [a.id, a]));
+    const membersById = new Map(members.map(m => [m.id, m]));
+
+    const billItems = Array.from(groupBy(billEvents, c => c.billId).entries()).map(([id, events]) => ({
+      id,
+      shortTitle: billsById.get(id)?.shortTitle ?? null,
+      sessionId: billsById.get(id)?.sessionId ?? null,
+      ...collapse(events.map(toEvent)),
+    }));
+
+    const stageItems = Array.from(groupBy(stageEvents, c => c.billStageId as number).entries()).map(([id, events]) => {
+      // Removed stages are gone from bill_stages, so describe them from their snapshot
+      const removal = events.find(e => e.changeType === 'removed' && e.detail);
+      const snapshot = removal ? JSON.parse(removal.detail as string) : null;
+      return {
+        id,
+        billId: events[0].billId,
+        billTitle: billsById.get(events[0].billId)?.shortTitle ?? null,
+        description: stagesById.get(id)?.description ?? snapshot?.description ?? null,
+        house: stagesById.get(id)?.house ?? snapshot?.house ?? null,
+        ...collapse(events.map(toEvent)),
+        removedSittings: events
+          .filter(e => e.changeType === 'sittingRemoved' && e.detail)
+          .map(e => JSON.parse(e.detail as string)),
+        removedStage: snapshot,
+      };
+    });
+
+    const amendmentItems = Array.from(groupBy(amendmentEvents, c => c.amendmentId).entries()).map(([id, events]) => {
+      const last = events[events.length - 1];
+      const stage = last.billStageId !== null ? stagesById.get(last.billStageId) : undefined;
+      return {
+        id,
+        dNum: amendmentsById.get(id)?.dNum ?? null,
+        decision: amendmentsById.get(id)?.decision ?? null,
+        billId: last.billId,
+        billTitle: last.billId !== null ? billsById.get(last.billId)?.shortTitle ?? null : null,
+        billStageId: last.billStageId,
+        stageDescription: stage?.description ?? null,
+        house: stage?.house ?? null,
+        ...collapse(events.map(toEvent)),
+      };
+    });
+
+    const sponsorshipItems = sponsorEvents.map(c => {
+      const sponsorId = parseInt((c.newValue ?? c.oldValue) as string);
+      return {
+        amendmentId: c.amendmentId,
+        dNum: amendmentsById.get(c.amendmentId)?.dNum ?? null,
+        billId: c.billId,
+        billTitle: c.billId !== null ? billsById.get(c.billId)?.shortTitle ?? null : null,
+        changeType: c.changeType === 'sponsorAdded' ? 'added' : 'removed',
+        member: membersById.get(sponsorId) ?? { id: sponsorId },
+        changedAt: c.changedAt,
+      };
+    });
+
+    return res.json({
+      since: since ?? null,
+      syncRuns,
+      bills: billItems,
+      stages: stageItems,
+      amendments: amendmentItems,
+      sponsorships: sponsorshipItems,
+      // Pass back as billsAfter, stagesAfter, ... for the next page of each list; null when it has no more
+      nextCursor: {
+        bills: billPage.next,
+        stages: stagePage.next,
+        amendments: amendmentPage.next,
+        sponsorships: sponsorPage.next === null ? null : sponsorPage.items[sponsorPage.items.length - 1].id,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching changes:', error);
+    return res.status(500).json({ error: 'Failed to fetch changes' });
+  }
+});
+
+export default router;
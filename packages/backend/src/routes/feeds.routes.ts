@@ -0,0 +1,197 @@
+import { Router, type Router as RouterType, type Request, type Response } from 'express';
+import { prisma } from '../services/db';
+import { parseAmendmentFilters, buildAmendmentWhere, type AmendmentFilters } from '../services/amendment-filters';
+import { searchAmendments } from '../services/amendment-search';
+import { stageGroupParamError } from '../services/stage-groups';
+
+const router: RouterType = Router();
+
+const DEFAULT_FEED_SIZE = 50;
+const MAX_FEED_SIZE = 200;
+
+type FeedFormat = 'atom' | 'rss';
+
+interface FeedEntry {
+  id: number;
+  title: string;
+  link: string;
+  firstSeenAt: Date;
+  author: string | null;
+  decision: string;
+  summary: string;
+  html: string;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Describe the search and filter combination for the feed title
+async function describeFilters(filters: AmendmentFilters, q?: string): Promise<string> {
+  const parts: string[] = [];
+  if (q) parts.push(`matching "${q}"`);
+  if (filters.billId) {
+    const bill = await prisma.bill.findUnique({ where: { id: filters.billId }, select: { shortTitle: true } });
+    parts.push(`tabled to ${bill?.shortTitle ?? `Bill ${filters.billId}`}`);
+  }
+  if (filters.memberId) {
+    const member = await prisma.member.findUnique({ where: { id: filters.memberId }, select: { displayName: true } });
+    parts.push(`sponsored by ${member?.displayName ?? `Member ${filters.memberId}`}`);
+  }
+  if (filters.sessionId) {
+    const session = await prisma.session.findUnique({ where: { id: filters.sessionId }, select: { name: true } });
+    parts.push(`in session ${session?.name ?? filters.sessionId}`);
+  }
+  if (filters.stage) parts.push(`at ${filters.stage}`);
+  if (filters.stageTypeId) {
+    const stageType = await prisma.stageType.findUnique({ where: { id: filters.stageTypeId }, select: { name: true } });
+    parts.push(`at ${stageType?.name ?? `stage type ${filters.stageTypeId}`}`);
+  }
+  if (filters.stageGroup) parts.push(`at stage group ${filters.stageGroup}`);
+  if (filters.house) parts.push(`in the ${filters.house}`);
+  if (filters.decision) parts.push(`with decision ${filters.decision}`);
+  return ['New amendments', ...parts].join(' ');
+}
+
+function renderAtom(title: string, selfUrl: string, entries: FeedEntry[]): string {
+  const updated = (entries[0]?.firstSeenAt ?? new Date()).toISOString();
+  const items = entries.map(e => `  <entry>
+    <id>${escapeXml(`${selfUrl.split('?')[0]}#amendment-${e.id}`)}</id>
+    <title>${escapeXml(e.title)}</title>
+    <link href="${escapeXml(e.link)}"/>
+    <published>${e.firstSeenAt.toISOString()}</published>
+    <updated>${e.firstSeenAt.toISOString()}</updated>
+    ${e.author ? `<author><name>${escapeXml(e.author)}</name></author>` : ''}
+    <category term="${escapeXml(e.decision)}"/>
+    <summary type="text">${escapeXml(e.summary)}</summary>
+    <content type="html">${escapeXml(e.html)}</content>
+  </entry>`);
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeXml(selfUrl)}</id>
+  <title>${escapeXml(title)}</title>
+  <link rel="self" href="${escapeXml(selfUrl)}"/>
+  <updated>${updated}</updated>
+${items.join('\n')}
+</feed>
+`;
+}
+
+function renderRss(title: string, selfUrl: string, entries: FeedEntry[]): string {
+  const items = entries.map(e => `    <item>
+      <guid isPermaLink="false">${escapeXml(`${selfUrl.split('?')[0]}#amendment-${e.id}`)}</guid>
+      <title>${escapeXml(e.title)}</title>
+      <link>${escapeXml(e.link)}</link>
+      <pubDate>${e.firstSeenAt.toUTCString()}</pubDate>
+      ${e.author ? `<dc:creator>${escapeXml(e.author)}</dc:creator>` : ''}
+      <category>${escapeXml(e.decision)}</category>
+      <description>${escapeXml(e.html)}</description>
+    </item>`);
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>${escapeXml(title)}</title>
+    <link>${escapeXml(selfUrl)}</link>
+    <atom:link rel="self" href="${escapeXml(selfUrl)}" type="application/rss+xml"/>
+    <description>${escapeXml(title)}</description>
+    <lastBuildDate>${new Date().toUTCString()}</lastBuildDate>
+${items.join('\n')}
+  </channel>
+</rss>
+`;
+}
+
+async function sendAmendmentFeed(req: Request, res: Response, format: FeedFormat) {
+  try {
+    const stageGroupError = stageGroupParamError(req.query.stageGroup);
+    if (stageGroupError) {
+      res.status(400).json({ error: stageGroupError });
+      return;
+    }
+
+    const filters = parseAmendmentFilters(req.query);
+    const take = Math.min(parseInt(req.query.take as string) || DEFAULT_FEED_SIZE, MAX_FEED_SIZE);
+    const q = (req.query.q as string | undefined)?.trim();
+
+    // A search feed lists the newest matches; the search picks them, then they load as usual
+    const where = q
+      ? { id: { in: (await searchAmendments(q, filters, 0, take, 'newest')).ids } }
+      : await buildAmendmentWhere(filters);
+
+    const amendments = await prisma.amendment.findMany({
+      where,
+      take,
+      orderBy: [{ firstSeenAt: 'desc' }, { id: 'desc' }],
+      include: {
+        sponsors: {
+          orderBy: { sortOrder: 'asc' },
+          include: {
+            member: { select: { displayName: true, party: true } },
+          },
+        },
+        billStage: {
+          include: {
+            bill: { select: { id: true, shortTitle: true } },
+          },
+        },
+      },
+    });
+
+    const entries: FeedEntry[] = amendments.map(a => {
+      const label = a.dNum || a.amendmentNumber || `Amendment ${a.id}`;
+      const sponsors = a.sponsors.map(s => `${s.member.displayName} (${s.member.party})`);
+      const stage = `${a.billStage.description} (${a.billStage.house})`;
+      const summary = [
+        `Stage: ${stage}`,
+        `Decision: ${a.decision}`,
+        `Sponsors: ${sponsors.join(', ') || 'none'}`,
+        a.summaryText || '',
+      ].filter(Boolean).join('\n');
+      const html = [
+        `<p><strong>dNum:</strong> ${escapeXml(a.dNum || '-')}<br/>`,
+        `<strong>Stage:</strong> ${escapeXml(stage)}<br/>`,
+        `<strong>Decision:</strong> ${escapeXml(a.decision)}<br/>`,
+        `<strong>Sponsors:</strong> ${escapeXml(sponsors.join(', ') || 'none')}</p>`,
+        a.summaryText ? `<p>${escapeXml(a.summaryText).replace(/\n/g, '<br/>')}</p>` : '',
+      ].join('');
+
+      return {
+        id: a.id,
+        title: `${label}: ${a.billStage.bill.shortTitle}`,
+        link: `https://bills.parliament.uk/bills/${a.billStage.bill.id}/stages/${a.billStage.id}/amendments/${a.id}`,
+        firstSeenAt: a.firstSeenAt,
+        author: a.sponsors[0]?.member.displayName ?? null,
+        decision: a.decision,
+        summary,
+        html,
+      };
+    });
+
+    const title = await describeFilters(filters, q);
+    const selfUrl = `${req.protocol}://${req.get('host')}${req.originalUrl}`;
+
+    if (format === 'atom') {
+      res.type('application/atom+xml').send(renderAtom(title, selfUrl, entries));
+    } else {
+      res.type('application/rss+xml').send(renderRss(title, selfUrl, entries));
+    }
+  } catch (error) {
+    console.error('Error building amendment feed:', error);
+    res.status(500).json({ error: 'Failed to build amendment feed' });
+  }
+}
+
+// GET /api/v1/feeds/amendments.atom - Atom feed of new amendments (same filters as GET /amendments)
+router.get('/amendments.atom', (req, res) => sendAmendmentFeed(req, res, 'atom'));
+
+// GET /api/v1/feeds/amendments.rss - RSS feed of new amendments (same filters as GET /amendments)
+router.get('/amendments.rss', (req, res) => sendAmendmentFeed(req, res, 'rss'));
+
+export default router;
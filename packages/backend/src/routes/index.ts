@@ -5,6 +5,11 @@ import amendmentsRoutes from './amendments.routes';
 import membersRoutes from './members.routes';
 import syncRoutes from './sync.routes';
 import stagesRoutes from './stages.routes';
+import changesRoutes from './changes.routes';
+import feedsRoutes from './feeds.routes';
+import networkRoutes from './network.routes';
+import analyticsRoutes from './analytics.routes';
+import partiesRoutes from './parties.routes';
 
 const router: RouterType = Router();
 
@@ -14,5 +19,10 @@ router.use('/amendments', amendmentsRoutes);
 router.use('/members', membersRoutes);
 router.use('/sync', syncRoutes);
 router.use('/stages', stagesRoutes);
+router.use('/changes', changesRoutes);
+router.use('/feeds', feedsRoutes);
+router.use('/network', networkRoutes);
+router.use('/analytics', analyticsRoutes);
+router.use('/parties', partiesRoutes);
 
 export default router;
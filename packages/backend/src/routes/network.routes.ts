@@ -0,0 +1,34 @@
+import { Router, type Router as RouterType } from 'express';
+import { buildCosponsorshipNetwork } from '../services/cosponsorship-network';
+
+const router: RouterType = Router();
+
+// GET /api/v1/network/cosponsorship - Member co-sponsorship graph for a session or bill
+router.get('/cosponsorship', async (req, res) => {
+  try {
+    const sessionId = req.query.sessionId ? parseInt(req.query.sessionId as string) : undefined;
+    const billId = req.query.billId ? parseInt(req.query.billId as string) : undefined;
+    const house = req.query.house as string | undefined;
+    const minWeight = parseInt(req.query.minWeight as string) || 1;
+
+    if ((sessionId !== undefined && isNaN(sessionId)) || (billId !== undefined && isNaN(billId))) {
+      return res.status(400).json({ error: 'sessionId and billId must be numbers' });
+    }
+    // Every session's signatures at once would be too large a graph; house only narrows the scope
+    if (!sessionId && !billId) {
+      return res.status(400).json({ error: 'Provide sessionId or billId' });
+    }
+
+    const network = await buildCosponsorshipNetwork({ sessionId, billId, house }, minWeight);
+
+    return res.json({
+      filters: { sessionId: sessionId ?? null, billId: billId ?? null, house: house ?? null, minWeight },
+      ...network,
+    });
+  } catch (error) {
+    console.error('Error building co-sponsorship network:', error);
+    return res.status(500).json({ error: 'Failed to build co-sponsorship network' });
+  }
+});
+
+export default router;
@@ -0,0 +1,47 @@
+import { Router, type Router as RouterType, type Request } from 'express';
+import { buildAmendmentWhere } from '../services/amendment-filters';
+import { getPartySummaries, getPartyDetail, type PartyCountBy } from '../services/party-stats';
+
+const router: RouterType = Router();
+
+// Amendment filter and counting mode shared by the party endpoints
+async function parsePartyQuery(query: Request['query']) {
+  const where = await buildAmendmentWhere({
+    sessionId: query.sessionId ? parseInt(query.sessionId as string) : undefined,
+    house: query.house as string | undefined,
+  });
+  const countBy: PartyCountBy = query.countBy === 'lead' ? 'lead' : 'amendment';
+  return { where, countBy };
+}
+
+// GET /api/v1/parties - Tabled and agreed amendments and active members per party
+router.get('/', async (req, res) => {
+  try {
+    const { where, countBy } = await parsePartyQuery(req.query);
+    const parties = await getPartySummaries(where, countBy);
+    res.json({ countBy, items: parties });
+  } catch (error) {
+    console.error('Error fetching parties:', error);
+    res.status(500).json({ error: 'Failed to fetch parties' });
+  }
+});
+
+// GET /api/v1/parties/:party - One party's decisions, most active members and most amended bills
+router.get('/:party', async (req, res) => {
+  try {
+    const { where, countBy } = await parsePartyQuery(req.query);
+    const party = await getPartyDetail(req.params.party, where, countBy);
+
+    if (!party) {
+      res.status(404).json({ error: 'Party not found' });
+      return;
+    }
+
+    res.json({ countBy, ...party });
+  } catch (error) {
+    console.error('Error fetching party:', error);
+    res.status(500).json({ error: 'Failed to fetch party' });
+  }
+});
+
+export default router;
@@ -1,19 +1,45 @@
 import { Router, type Router as RouterType } from 'express';
 import { prisma } from '../services/db';
+import { buildStageFilter } from '../services/amendment-filters';
+import { STAGE_GROUPS, loadStageGroupLookup, stageGroupParamError, type StageGroup } from '../services/stage-groups';
 
 const router: RouterType = Router();
 
+// GET /api/v1/stages/types - Stage type catalogue with normalised stage groups
+router.get('/types', async (req, res) => {
+  try {
+    const stageTypes = await prisma.stageType.findMany({
+      orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+    });
+    res.json({ groups: STAGE_GROUPS, stageTypes });
+  } catch (error) {
+    console.error('Error fetching stage types:', error);
+    res.status(500).json({ error: 'Failed to fetch stage types' });
+  }
+});
+
 // GET /api/v1/stages/with-amendments - Stages that have amendments, with sitting dates
 router.get('/with-amendments', async (req, res) => {
   try {
+    const stageGroupError = stageGroupParamError(req.query.stageGroup);
+    if (stageGroupError) {
+      res.status(400).json({ error: stageGroupError });
+      return;
+    }
+
     const sessionId = req.query.sessionId ? parseInt(req.query.sessionId as string) : undefined;
     const house = req.query.house as string | undefined;
     const fromDate = req.query.fromDate as string | undefined;
     const toDate = req.query.toDate as string | undefined;
+    const stageFilter = await buildStageFilter({
+      stageTypeId: req.query.stageTypeId ? parseInt(req.query.stageTypeId as string) : undefined,
+      stageGroup: req.query.stageGroup as StageGroup | undefined,
+    });
     const skip = parseInt(req.query.skip as string) || 0;
     const take = parseInt(req.query.take as string) || 100;
 
     const where: any = {
+      ...stageFilter,
       amendments: { some: {} },
     };
 
@@ -25,20 +51,23 @@ router.get('/with-amendments', async (req, res) => {
       where.house = house;
     }
 
-    const stages = await prisma.billStage.findMany({
-      where,
-      include: {
-        bill: {
-          select: { id: true, shortTitle: true },
+    const [stages, stageGroupOf] = await Promise.all([
+      prisma.billStage.findMany({
+        where,
+        include: {
+          bill: {
+            select: { id: true, shortTitle: true },
+          },
+          sittings: {
+            orderBy: { date: 'asc' },
+          },
+          _count: {
+            select: { amendments: true },
+          },
         },
-        sittings: {
-          orderBy: { date: 'asc' },
-        },
-        _count: {
-          select: { amendments: true },
-        },
-      },
-    });
+      }),
+      loadStageGroupLookup(),
+    ]);
 
     // Flatten: one row per sitting date (or one row if no sittings)
     const items: any[] = [];
@@ -50,6 +79,8 @@ router.get('/with-amendments', async (req, res) => {
             billId: stage.bill.id,
             billTitle: stage.bill.shortTitle,
             stageDescription: stage.description,
+            stageTypeId: stage.stageTypeId,
+            stageGroup: stageGroupOf(stage),
             house: stage.house,
             sittingDate: sitting.date ? sitting.date.toISOString() : null,
             amendmentCount: stage._count.amendments,
@@ -61,6 +92,8 @@ router.get('/with-amendments', async (req, res) => {
           billId: stage.bill.id,
           billTitle: stage.bill.shortTitle,
           stageDescription: stage.description,
+          stageTypeId: stage.stageTypeId,
+          stageGroup: stageGroupOf(stage),
           house: stage.house,
           sittingDate: null,
           amendmentCount: stage._count.amendments,
@@ -1,12 +1,29 @@
-import { Router, type Router as RouterType } from 'express';
+import { Router, type Router as RouterType, type Request, type Response, type NextFunction } from 'express';
+import type { SyncLog } from '@prisma/client';
 import { prisma } from '../services/db';
-import { runFullSync, runIncrementalSync } from '../sync';
+import {
+  runSync,
+  resumeSync,
+  allSessions,
+  currentSessionActive,
+  updatedSince,
+  billIds,
+  describeProgress,
+  findRunningSync,
+  findLiveSync,
+  releaseSyncLock,
+  type BillSelector,
+  type SyncProgress,
+} from '../sync';
 
 const router: RouterType = Router();
 
-// POST /api/v1/sync/run - Trigger a sync
-router.post('/run', async (req, res) => {
-  // Verify API key
+// How often the progress stream checks for changes, and sends a keep-alive comment
+const STREAM_POLL_MS = 1000;
+const STREAM_KEEPALIVE_MS = 15000;
+
+// Verify the X-Sync-API-Key header for endpoints that start or stop syncs
+function requireSyncApiKey(req: Request, res: Response, next: NextFunction) {
   const apiKey = req.headers['x-sync-api-key'];
   const expectedKey = process.env.SYNC_API_KEY;
 
@@ -15,74 +32,288 @@ router.post('/run', async (req, res) => {
   } else if (!apiKey || apiKey !== expectedKey) {
     res.status(401).json({ error: 'Invalid or missing API key' });
   } else {
-    // Check if sync is already running
-    const runningSync = await prisma.syncLog.findFirst({
-      where: { status: 'running' },
-    });
+    next();
+  }
+}
 
-    if (runningSync) {
-      res.status(409).json({ error: 'A sync is already running', syncId: runningSync.id });
-    } else {
-      const syncType = (req.query.type as string) || 'incremental';
-
-      if (syncType !== 'full' && syncType !== 'incremental') {
-        res.status(400).json({ error: 'Invalid sync type. Must be "full" or "incremental"' });
-      } else {
-        // Start sync in background and return immediately
-        res.json({
-          message: `${syncType} sync started`,
-          type: syncType,
-          startedAt: new Date().toISOString(),
-        });
-
-        // Run sync after responding (fire and forget)
-        const runSync = async () => {
-          try {
-            if (syncType === 'full') {
-              await runFullSync();
-            } else {
-              await runIncrementalSync();
-            }
-          } catch (error) {
-            console.error(`Sync (${syncType}) failed:`, error);
-          }
-        };
-        runSync();
+// Current sync status, including progress of a running sync. Read-only, so
+// it is safe to poll; stale runs are expired when a sync is next started.
+async function getSyncStatus() {
+  const [lastFullSync, lastIncrementalSync, runningSync] = await Promise.all([
+    prisma.syncLog.findFirst({
+      where: { type: 'full', status: 'completed' },
+      orderBy: { completedAt: 'desc' },
+    }),
+    prisma.syncLog.findFirst({
+      where: { type: 'incremental', status: 'completed' },
+      orderBy: { completedAt: 'desc' },
+    }),
+    findLiveSync(prisma),
+  ]);
+
+  const progress: SyncProgress | null = runningSync?.progress ? JSON.parse(runningSync.progress) : null;
+
+  return {
+    lastFullSync: lastFullSync?.completedAt || null,
+    lastIncrementalSync: lastIncrementalSync?.completedAt || null,
+    isRunning: !!runningSync,
+    syncId: runningSync?.id ?? null,
+    syncType: runningSync?.type ?? null,
+    cancelRequested: !!runningSync?.cancelRequestedAt,
+    currentTask: runningSync ? (progress ? describeProgress(progress) : 'Starting sync...') : null,
+    progress: progress ? { current: progress.current, total: progress.total } : null,
+    details: progress,
+  };
+}
+
+// Open status streams share one poller, which runs while any are connected
+const streamClients = new Set<Response>();
+let streamPollTimer: NodeJS.Timeout | null = null;
+let lastStreamedStatus = '';
+let streamPolling = false;
+
+// Send the sync status to every open stream when it has changed
+async function pollStreamStatus() {
+  if (streamPolling) return;
+  streamPolling = true;
+  try {
+    const payload = JSON.stringify(await getSyncStatus());
+    if (payload !== lastStreamedStatus) {
+      lastStreamedStatus = payload;
+      for (const client of streamClients) {
+        client.write(`event: status\ndata: ${payload}\n\n`);
       }
     }
+  } catch (error) {
+    console.error('Error streaming sync status:', error);
+  } finally {
+    streamPolling = false;
+  }
+}
+
+// Parse a SyncLog row for the run history endpoints
+function parseSyncRun(syncLog: SyncLog) {
+  const stats = syncLog.stats ? JSON.parse(syncLog.stats) : null;
+  const end = syncLog.completedAt ?? (syncLog.status === 'running' ? new Date() : null);
+
+  return {
+    id: syncLog.id,
+    type: syncLog.type,
+    status: syncLog.status,
+    startedAt: syncLog.startedAt,
+    completedAt: syncLog.completedAt,
+    durationMs: end ? end.getTime() - syncLog.startedAt.getTime() : null,
+    error: syncLog.error,
+    options: syncLog.options ? JSON.parse(syncLog.options) : null,
+    billsProcessed: stats?.billsProcessed ?? null,
+    stagesProcessed: stats?.stagesProcessed ?? null,
+    amendmentsProcessed: stats?.amendmentsProcessed ?? null,
+    amendmentsRemoved: stats?.amendmentsRemoved ?? null,
+    apiRequests: stats?.apiRequests ?? null,
+    errorCount: stats?.errors?.length ?? 0,
+    stats,
+  };
+}
+
+// Bill selection for POST /sync/run, or an error message for invalid parameters
+function selectorFromQuery(query: Request['query']): BillSelector | string {
+  const syncType = (query.type as string) || 'incremental';
+  const backfill = query.backfill ? parseInt(query.backfill as string) : undefined;
+
+  if (backfill !== undefined && (isNaN(backfill) || backfill < 1)) {
+    return 'backfill must be a positive number of sessions';
+  }
+
+  switch (syncType) {
+    case 'full':
+      return allSessions({ backfill });
+    case 'incremental':
+      return currentSessionActive({ force: query.force === 'true' });
+    case 'updated': {
+      const since = new Date(query.since as string);
+      if (!query.since || isNaN(since.getTime())) {
+        return 'since must be an ISO timestamp for an "updated" sync';
+      }
+      return updatedSince(since, { backfill });
+    }
+    case 'bill': {
+      const ids = ((query.billIds as string) || '').split(',').filter(Boolean).map(id => parseInt(id));
+      if (ids.length === 0 || ids.some(isNaN)) {
+        return 'billIds must be a comma-separated list of bill IDs for a "bill" sync';
+      }
+      return billIds(ids);
+    }
+    default:
+      return 'Invalid sync type. Must be "full", "incremental", "updated" or "bill"';
+  }
+}
+
+// POST /api/v1/sync/run - Trigger a sync (?type=full|incremental|updated|bill, or ?resume=<syncLogId>)
+router.post('/run', requireSyncApiKey, async (req, res) => {
+  // Check if sync is already running (runs whose lease has expired are cleared first)
+  const runningSync = await findRunningSync(prisma);
+
+  if (runningSync) {
+    res.status(409).json({ error: 'A sync is already running', syncId: runningSync.id });
+  } else if (req.query.resume) {
+    // Resume an interrupted sync from its checkpoints
+    const resumeId = parseInt(req.query.resume as string);
+    const previous = isNaN(resumeId) ? null : await prisma.syncLog.findUnique({ where: { id: resumeId } });
+
+    if (!previous) {
+      res.status(404).json({ error: 'Sync to resume not found' });
+    } else if (previous.status === 'completed') {
+      res.status(400).json({ error: 'Sync already completed', syncId: previous.id });
+    } else {
+      res.json({
+        message: `${previous.type} sync ${previous.id} resumed`,
+        type: previous.type,
+        syncId: previous.id,
+        startedAt: new Date().toISOString(),
+      });
+
+      resumeSync(previous.id).catch(error => {
+        console.error(`Sync (${previous.type}, resuming ${previous.id}) failed:`, error);
+      });
+    }
+  } else {
+    const selector = selectorFromQuery(req.query);
+
+    if (typeof selector === 'string') {
+      res.status(400).json({ error: selector });
+    } else {
+      // Start sync in background and return immediately
+      res.json({
+        message: `${selector.type} sync started`,
+        type: selector.type,
+        startedAt: new Date().toISOString(),
+      });
+
+      // Run sync after responding (fire and forget)
+      runSync(selector).catch(error => {
+        console.error(`Sync (${selector.type}) failed:`, error);
+      });
+    }
   }
 });
 
-// GET /api/v1/sync/status - Get sync status
-router.get('/status', async (req, res) => {
+// POST /api/v1/sync/bills/:id - Re-sync a single bill now (stages, amendments and sponsors)
+router.post('/bills/:id', requireSyncApiKey, async (req, res) => {
+  const billId = parseInt(req.params.id);
+
+  if (isNaN(billId)) {
+    res.status(400).json({ error: 'Invalid bill ID' });
+    return;
+  }
+
+  // Refuse while any other sync runs; the lock inside runSync catches races
+  const runningSync = await findRunningSync(prisma);
+
+  if (runningSync) {
+    res.status(409).json({ error: 'A sync is already running', syncId: runningSync.id });
+  } else {
+    res.json({
+      message: `bill ${billId} sync started`,
+      type: 'bill',
+      billId,
+      startedAt: new Date().toISOString(),
+    });
+
+    runSync(billIds([billId])).catch(error => {
+      console.error(`Sync (bill ${billId}) failed:`, error);
+    });
+  }
+});
+
+// GET /api/v1/sync/runs - Sync run history, newest first
+router.get('/runs', async (req, res) => {
   try {
-    // Get latest sync logs
-    const [lastFullSync, lastIncrementalSync, runningSync] = await Promise.all([
-      prisma.syncLog.findFirst({
-        where: { type: 'full', status: 'completed' },
-        orderBy: { completedAt: 'desc' },
-      }),
-      prisma.syncLog.findFirst({
-        where: { type: 'incremental', status: 'completed' },
-        orderBy: { completedAt: 'desc' },
-      }),
-      prisma.syncLog.findFirst({
-        where: { status: 'running' },
+    const skip = parseInt(req.query.skip as string) || 0;
+    const take = Math.min(parseInt(req.query.take as string) || 50, 500);
+
+    const where: any = {};
+    if (req.query.type) {
+      where.type = req.query.type as string;
+    }
+    if (req.query.status) {
+      where.status = req.query.status as string;
+    }
+
+    const [runs, total] = await Promise.all([
+      prisma.syncLog.findMany({
+        where,
+        skip,
+        take,
+        orderBy: { startedAt: 'desc' },
       }),
+      prisma.syncLog.count({ where }),
     ]);
 
-    // Get database statistics
-    const [billCount, amendmentCount, memberCount] = await Promise.all([
+    res.json({
+      // The list omits the full stats (with its errors list); fetch a run for those
+      items: runs.map(run => {
+        const { stats, ...summary } = parseSyncRun(run);
+        return summary;
+      }),
+      total,
+      skip,
+      take,
+    });
+  } catch (error) {
+    console.error('Error fetching sync runs:', error);
+    res.status(500).json({ error: 'Failed to fetch sync runs' });
+  }
+});
+
+// GET /api/v1/sync/runs/:id - A sync run with its full stats and errors
+router.get('/runs/:id', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid sync run ID' });
+    }
+
+    const run = await prisma.syncLog.findUnique({
+      where: { id },
+      include: {
+        _count: { select: { checkpoints: true, amendmentChanges: true, billChanges: true } },
+      },
+    });
+
+    if (!run) {
+      return res.status(404).json({ error: 'Sync run not found' });
+    }
+
+    const parsed = parseSyncRun(run);
+    return res.json({
+      ...parsed,
+      errors: parsed.stats?.errors ?? [],
+      progress: run.progress ? JSON.parse(run.progress) : null,
+      cancelRequestedAt: run.cancelRequestedAt,
+      heartbeatAt: run.heartbeatAt,
+      checkpoints: run._count.checkpoints,
+      amendmentChanges: run._count.amendmentChanges,
+      billChanges: run._count.billChanges,
+    });
+  } catch (error) {
+    console.error('Error fetching sync run:', error);
+    return res.status(500).json({ error: 'Failed to fetch sync run' });
+  }
+});
+
+// GET /api/v1/sync/status - Get sync status, with progress of a running sync
+router.get('/status', async (req, res) => {
+  try {
+    const [status, billCount, amendmentCount, memberCount] = await Promise.all([
+      getSyncStatus(),
       prisma.bill.count(),
       prisma.amendment.count(),
       prisma.member.count(),
     ]);
 
     res.json({
-      lastFullSync: lastFullSync?.completedAt || null,
-      lastIncrementalSync: lastIncrementalSync?.completedAt || null,
-      isRunning: !!runningSync,
-      currentTask: runningSync ? 'Syncing data...' : null,
+      ...status,
       stats: {
         bills: billCount,
         amendments: amendmentCount,
@@ -95,4 +326,90 @@ router.get('/status', async (req, res) => {
   }
 });
 
+// GET /api/v1/sync/status/stream - Server-sent events with sync status whenever it changes
+router.get('/status/stream', (req, res) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.flushHeaders();
+
+  streamClients.add(res);
+  if (lastStreamedStatus) {
+    res.write(`event: status\ndata: ${lastStreamedStatus}\n\n`);
+  }
+  if (!streamPollTimer) {
+    pollStreamStatus();
+    streamPollTimer = setInterval(pollStreamStatus, STREAM_POLL_MS);
+  }
+  const keepAliveTimer = setInterval(() => res.write(': keep-alive\n\n'), STREAM_KEEPALIVE_MS);
+
+  req.on('close', () => {
+    clearInterval(keepAliveTimer);
+    streamClients.delete(res);
+    if (streamClients.size === 0 && streamPollTimer) {
+      clearInterval(streamPollTimer);
+      streamPollTimer = null;
+      lastStreamedStatus = '';
+    }
+  });
+});
+
+// POST /api/v1/sync/cancel - Ask the running sync to stop after its current bill
+router.post('/cancel', requireSyncApiKey, async (req, res) => {
+  try {
+    const runningSync = await findRunningSync(prisma);
+
+    if (!runningSync) {
+      return res.status(404).json({ error: 'No sync is running' });
+    }
+
+    await prisma.syncLog.update({
+      where: { id: runningSync.id },
+      data: { cancelRequestedAt: runningSync.cancelRequestedAt ?? new Date() },
+    });
+
+    return res.status(202).json({
+      message: `Cancelling ${runningSync.type} sync ${runningSync.id}`,
+      syncId: runningSync.id,
+    });
+  } catch (error) {
+    console.error('Error cancelling sync:', error);
+    return res.status(500).json({ error: 'Failed to cancel sync' });
+  }
+});
+
+// POST /api/v1/sync/release - Force-release the sync lock (?syncId= defaults to the running sync)
+router.post('/release', requireSyncApiKey, async (req, res) => {
+  try {
+    const syncId = req.query.syncId ? parseInt(req.query.syncId as string) : undefined;
+    if (syncId !== undefined && isNaN(syncId)) {
+      return res.status(400).json({ error: 'Invalid sync ID' });
+    }
+
+    const sync = syncId
+      ? await prisma.syncLog.findUnique({ where: { id: syncId } })
+      : await prisma.syncLog.findFirst({ where: { status: 'running' } });
+
+    if (!sync) {
+      return res.status(404).json({ error: syncId ? 'Sync not found' : 'No sync is running' });
+    }
+    if (sync.status !== 'running') {
+      return res.status(400).json({ error: `Sync ${sync.id} is not running`, status: sync.status });
+    }
+
+    await releaseSyncLock(prisma, sync.id);
+
+    return res.json({
+      message: `Released lock held by ${sync.type} sync ${sync.id}`,
+      syncId: sync.id,
+      lastHeartbeat: sync.heartbeatAt,
+    });
+  } catch (error) {
+    console.error('Error releasing sync lock:', error);
+    return res.status(500).json({ error: 'Failed to release sync lock' });
+  }
+});
+
 export default router;
@@ -0,0 +1,79 @@
+import type { Request } from 'express';
+import type { Prisma } from '@prisma/client';
+import { stageGroupWhere, type StageGroup } from './stage-groups';
+
+// Filters accepted by GET /amendments and the amendment feeds
+export interface AmendmentFilters {
+  memberId?: number;
+  billId?: number;
+  sessionId?: number;
+  decision?: string;
+  stage?: string;
+  stageTypeId?: number;
+  stageGroup?: StageGroup;
+  house?: string;
+}
+
+export function parseAmendmentFilters(query: Request['query']): AmendmentFilters {
+  return {
+    memberId: query.memberId ? parseInt(query.memberId as string) : undefined,
+    billId: query.billId ? parseInt(query.billId as string) : undefined,
+    sessionId: query.sessionId ? parseInt(query.sessionId as string) : undefined,
+    decision: query.decision as string | undefined,
+    stage: query.stage as string | undefined,
+    stageTypeId: query.stageTypeId ? parseInt(query.stageTypeId as string) : undefined,
+    stageGroup: query.stageGroup as StageGroup | undefined,
+    house: query.house as string | undefined,
+  };
+}
+
+// Build a Prisma where clause for amendments from parsed filters
+export async function buildAmendmentWhere(filters: AmendmentFilters): Promise<any> {
+  const { memberId, billId, sessionId, decision, stage, house } = filters;
+  const where: any = {};
+
+  if (decision) {
+    where.decision = decision;
+  }
+
+  // Filter by member (through sponsors relationship)
+  if (memberId) {
+    where.sponsors = {
+      some: { memberId },
+    };
+  }
+
+  // Filter by bill, session, stage, or house (through billStage relationship)
+  const stageFilter = await buildStageFilter(filters);
+  if (billId || sessionId || stage || house || Object.keys(stageFilter).length > 0) {
+    where.billStage = { ...stageFilter };
+    if (billId) {
+      where.billStage.billId = billId;
+    }
+    if (sessionId) {
+      where.billStage.bill = { sessionId };
+    }
+    if (stage) {
+      where.billStage.description = stage;
+    }
+    if (house) {
+      where.billStage.house = house;
+    }
+  }
+
+  return where;
+}
+
+/**
+ * Prisma condition on BillStage for the stageTypeId and stageGroup filters,
+ * empty when neither is set. Groups are resolved with stageGroupWhere since
+ * bill_stages has no relation to stage_types.
+ */
+export async function buildStageFilter(
+  filters: Pick<AmendmentFilters, 'stageTypeId' | 'stageGroup'>
+): Promise<Prisma.BillStageWhereInput> {
+  return {
+    ...(filters.stageTypeId && { stageTypeId: filters.stageTypeId }),
+    ...(filters.stageGroup && (await stageGroupWhere(filters.stageGroup))),
+  };
+}
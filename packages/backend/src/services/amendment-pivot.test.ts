@@ -0,0 +1,42 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { prisma } from './db';
+import { getPivotCube, PIVOT_NONE_KEY } from './amendment-pivot';
+
+vi.mock('./db', () => ({
+  prisma: {
+    amendment: { findMany: vi.fn() },
+    stageType: { findMany: async () => [{ id: 7, stageGroup: 'committee' }] },
+  },
+}));
+
+const stage = { stageTypeId: 7, description: 'Committee stage', house: 'Commons', bill: { id: 1, shortTitle: 'Bill' }, sittings: [] };
+
+function sponsor(id: number, party: string) {
+  return { member: { id, displayName: `Member ${id}`, party, partyColour: null } };
+}
+
+beforeEach(() => {
+  vi.mocked(prisma.amendment.findMany).mockResolvedValue([
+    { decision: 'Agreed', billStage: stage, sponsors: [sponsor(1, 'Labour'), sponsor(2, 'Labour')] },
+    { decision: 'Withdrawn', billStage: stage, sponsors: [] },
+  ] as never);
+});
+
+describe('getPivotCube', () => {
+  it('counts amendments without a sponsor under No sponsor, so cells cover every amendment', async () => {
+    const cube = await getPivotCube(['decision', 'party'], {}, 'amendment');
+
+    expect(cube.total).toBe(2);
+    expect(cube.cells).toEqual([
+      { keys: ['Agreed', 'Labour'], count: 1 },
+      { keys: ['Withdrawn', PIVOT_NONE_KEY], count: 1 },
+    ]);
+    expect(cube.axes[1].members.map(m => [m.label, m.count])).toEqual([['Labour', 1], ['No sponsor', 1]]);
+  });
+
+  it('labels the value No lead sponsor when counting lead sponsors', async () => {
+    const cube = await getPivotCube(['decision', 'member'], {}, 'lead');
+
+    expect(cube.axes[1].members.find(m => m.key === PIVOT_NONE_KEY)?.label).toBe('No lead sponsor');
+  });
+});
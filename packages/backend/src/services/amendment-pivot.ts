@@ -0,0 +1,218 @@
+import { prisma } from './db';
+import { STAGE_GROUPS, STAGE_GROUP_LABELS, loadStageGroupLookup } from './stage-groups';
+import type { PartyCountBy } from './party-stats';
+
+export const PIVOT_DIMENSIONS = ['bill', 'stage', 'decision', 'party', 'member', 'house', 'month'] as const;
+
+export type PivotDimension = (typeof PIVOT_DIMENSIONS)[number];
+
+// Key of the bucket that members beyond an axis limit are folded into
+export const PIVOT_OTHER_KEY = '_other';
+
+// Key of the party and member value of amendments without a (lead) sponsor
+export const PIVOT_NONE_KEY = '_none';
+
+export interface PivotAxisMember {
+  key: string;
+  label: string;
+  // Amendments with this value, whatever their other values
+  count: number;
+  // Party colour, on the party axis only
+  colour?: string | null;
+}
+
+export interface PivotAxis {
+  dimension: PivotDimension;
+  members: PivotAxisMember[];
+}
+
+export interface PivotCube {
+  dimensions: PivotDimension[];
+  axes: PivotAxis[];
+  // Non-empty cells only; keys are in the order of `dimensions`
+  cells: Array<{ keys: string[]; count: number }>;
+  // Amendments matched. Less than the cell sum when an amendment has several parties or members
+  total: number;
+}
+
+const MONTH_LABEL = new Intl.DateTimeFormat('en-GB', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+// One axis value with its label and, for parties, colour
+type Value = { key: string; label: string; colour?: string | null };
+
+function monthValue(dates: Date[]): Value {
+  if (dates.length === 0) {
+    return { key: 'undated', label: 'Undated' };
+  }
+  const first = new Date(Math.min(...dates.map(d => d.getTime())));
+  const key = `${first.getUTCFullYear()}-${String(first.getUTCMonth() + 1).padStart(2, '0')}`;
+  return { key, label: MONTH_LABEL.format(first) };
+}
+
+// Distinct values by key, keeping the first seen
+function distinct(values: Value[]): Value[] {
+  const byKey = new Map<string, Value>();
+  for (const value of values) {
+    if (!byKey.has(value.key)) byKey.set(value.key, value);
+  }
+  return Array.from(byKey.values());
+}
+
+// The values given, or `none` when there are none, so every amendment has a cell
+function orNone(values: Value[], none: Value): Value[] {
+  return values.length > 0 ? values : [none];
+}
+
+// Stages in parliamentary order and months oldest first; other axes by count, then no sponsor
+function sortMembers(dimension: PivotDimension, members: PivotAxisMember[]): PivotAxisMember[] {
+  const stageOrder: string[] = [...STAGE_GROUPS, 'other'];
+  return members.sort((a, b) => {
+    if (a.key === PIVOT_OTHER_KEY || b.key === PIVOT_OTHER_KEY) {
+      return a.key === PIVOT_OTHER_KEY ? 1 : -1;
+    }
+    if (a.key === PIVOT_NONE_KEY || b.key === PIVOT_NONE_KEY) {
+      return a.key === PIVOT_NONE_KEY ? 1 : -1;
+    }
+    if (dimension === 'stage') {
+      return stageOrder.indexOf(a.key) - stageOrder.indexOf(b.key);
+    }
+    if (dimension === 'month') {
+      return a.key === 'undated' ? 1 : b.key === 'undated' ? -1 : a.key.localeCompare(b.key);
+    }
+    return b.count - a.count || a.label.localeCompare(b.label);
+  });
+}
+
+/**
+ * Amendment counts over two or three dimensions, as a sparse cube.
+ * `amendmentWhere` is a Prisma amendment filter (see buildAmendmentWhere);
+ * matching amendments are loaded and counted in memory, so callers scope it
+ * to a session or bill.
+ *
+ * Stage is the normalised stage group and month the month of the stage's
+ * first sitting. Party and member follow `countBy` as in party-stats: an
+ * amendment counts once for each of its sponsors' parties and members, or
+ * for its lead sponsor only; amendments without one count under "No sponsor"
+ * (or "No lead sponsor"). With `limit`, each axis keeps its `limit` most
+ * frequent values and folds the rest into an "Other" member.
+ */
+export async function getPivotCube(
+  dimensions: PivotDimension[],
+  amendmentWhere: any,
+  countBy: PartyCountBy,
+  limit?: number
+): Promise<PivotCube> {
+  const [amendments, stageGroupOf] = await Promise.all([
+    prisma.amendment.findMany({
+      where: amendmentWhere,
+      select: {
+        decision: true,
+        billStage: {
+          select: {
+            stageTypeId: true,
+            description: true,
+            house: true,
+            bill: { select: { id: true, shortTitle: true } },
+            sittings: { where: { date: { not: null } }, select: { date: true } },
+          },
+        },
+        sponsors: {
+          where: countBy === 'lead' ? { isLead: true } : undefined,
+          select: { member: { select: { id: true, displayName: true, party: true, partyColour: true } } },
+        },
+      },
+    }),
+    loadStageGroupLookup(),
+  ]);
+
+  const none: Value = { key: PIVOT_NONE_KEY, label: countBy === 'lead' ? 'No lead sponsor' : 'No sponsor' };
+
+  // Each amendment's values on every dimension; party and member can have several
+  const rows = amendments.map(amendment => dimensions.map((dimension): Value[] => {
+    const stage = amendment.billStage;
+    switch (dimension) {
+      case 'bill':
+        return [{ key: String(stage.bill.id), label: stage.bill.shortTitle }];
+      case 'stage': {
+        const group = stageGroupOf(stage);
+        return [group ? { key: group, label: STAGE_GROUP_LABELS[group] } : { key: 'other', label: 'Other stages' }];
+      }
+      case 'decision':
+        return [{ key: amendment.decision, label: amendment.decision }];
+      case 'party':
+        return orNone(distinct(amendment.sponsors.map(s => ({
+          key: s.member.party,
+          label: s.member.party,
+          colour: s.member.partyColour,
+        }))), none);
+      case 'member':
+        return orNone(
+          distinct(amendment.sponsors.map(s => ({ key: String(s.member.id), label: s.member.displayName }))),
+          none
+        );
+      case 'house':
+        return [{ key: stage.house, label: stage.house }];
+      case 'month':
+        return [monthValue(stage.sittings.map(s => s.date!))];
+    }
+  }));
+
+  // Marginal counts per axis
+  const axes = dimensions.map(() => new Map<string, PivotAxisMember>());
+  for (const row of rows) {
+    row.forEach((values, axis) => {
+      for (const value of values) {
+        const member = axes[axis].get(value.key) ?? { ...value, count: 0 };
+        member.count++;
+        axes[axis].set(value.key, member);
+      }
+    });
+  }
+
+  // Values kept on each axis; the rest fold into Other
+  const kept = axes.map(members => limit && members.size > limit
+    ? new Set(
+        Array.from(members.values())
+          .sort((a, b) => b.count - a.count)
+          .slice(0, limit)
+          .map(m => m.key)
+      )
+    : null);
+
+  const foldedAxes = axes.map(() => new Map<string, PivotAxisMember>());
+  const cells = new Map<string, { keys: string[]; count: number }>();
+  for (const row of rows) {
+    const folded = row.map((values, axis) => {
+      const keys = new Set(values.map(v => (kept[axis] && !kept[axis]!.has(v.key) ? PIVOT_OTHER_KEY : v.key)));
+      for (const key of keys) {
+        const member = foldedAxes[axis].get(key)
+          ?? (key === PIVOT_OTHER_KEY ? { key, label: 'Other', count: 0 } : { ...axes[axis].get(key)!, count: 0 });
+        member.count++;
+        foldedAxes[axis].set(key, member);
+      }
+      return Array.from(keys);
+    });
+
+    // Every combination of the amendment's values
+    const combinations = folded.reduce<string[][]>(
+      (acc, keys) => acc.flatMap(prefix => keys.map(key => [...prefix, key])),
+      [[]]
+    );
+    for (const keys of combinations) {
+      const id = JSON.stringify(keys);
+      const cell = cells.get(id) ?? { keys, count: 0 };
+      cell.count++;
+      cells.set(id, cell);
+    }
+  }
+
+  return {
+    dimensions,
+    axes: dimensions.map((dimension, axis) => ({
+      dimension,
+      members: sortMembers(dimension, Array.from(foldedAxes[axis].values())),
+    })),
+    cells: Array.from(cells.values()).sort((a, b) => b.count - a.count),
+    total: amendments.length,
+  };
+}
@@ -0,0 +1,139 @@
+import { Prisma, type PrismaClient } from '@prisma/client';
+import { prisma } from './db';
+import type { AmendmentFilters } from './amendment-filters';
+import { stageGroupMembers } from './stage-groups';
+
+// Text search configuration used for both indexing and querying
+const TS_CONFIG = 'english';
+
+// Summary text ranks highest, then the marshalled list text, then the decision explanation
+const SEARCH_VECTOR = Prisma.sql`
+  setweight(to_tsvector(${TS_CONFIG}::regconfig, coalesce("summaryText", '')), 'A') ||
+  setweight(to_tsvector(${TS_CONFIG}::regconfig, coalesce("marshalledListText", '')), 'B') ||
+  setweight(to_tsvector(${TS_CONFIG}::regconfig, coalesce("decisionExplanation", '')), 'C')
+`;
+
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "';
+
+export interface SearchHighlights {
+  summaryText: string | null;
+  marshalledListText: string | null;
+  decisionExplanation: string | null;
+}
+
+/**
+ * Recompute search vectors for the given amendments, or for every amendment
+ * that has none yet when no ids are given. Returns the number of rows updated.
+ */
+export async function updateSearchVectors(client: PrismaClient | Prisma.TransactionClient, amendmentIds?: number[]): Promise<number> {
+  if (amendmentIds !== undefined) {
+    if (amendmentIds.length === 0) return 0;
+    return client.$executeRaw`
+      UPDATE amendments SET "searchVector" = ${SEARCH_VECTOR} WHERE id = ANY(${amendmentIds}::int[])
+    `;
+  }
+  return client.$executeRaw`
+    UPDATE amendments SET "searchVector" = ${SEARCH_VECTOR} WHERE "searchVector" IS NULL
+  `;
+}
+
+// SQL conditions equivalent to buildAmendmentWhere, for the raw search query
+async function filterConditions(filters: AmendmentFilters): Promise<Prisma.Sql[]> {
+  const conditions: Prisma.Sql[] = [];
+  if (filters.decision) {
+    conditions.push(Prisma.sql`a.decision = ${filters.decision}`);
+  }
+  if (filters.memberId) {
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM amendment_sponsors s WHERE s."amendmentId" = a.id AND s."memberId" = ${filters.memberId}
+    )`);
+  }
+  if (filters.billId) {
+    conditions.push(Prisma.sql`bs."billId" = ${filters.billId}`);
+  }
+  if (filters.sessionId) {
+    conditions.push(Prisma.sql`b."sessionId" = ${filters.sessionId}`);
+  }
+  if (filters.stage) {
+    conditions.push(Prisma.sql`bs.description = ${filters.stage}`);
+  }
+  if (filters.stageTypeId) {
+    conditions.push(Prisma.sql`bs."stageTypeId" = ${filters.stageTypeId}`);
+  }
+  if (filters.stageGroup) {
+    // As stageGroupWhere: catalogued types in the group, or uncatalogued types by description
+    const { stageTypeIds, cataloguedTypeIds, descriptions } = await stageGroupMembers(filters.stageGroup);
+    conditions.push(Prisma.sql`(bs."stageTypeId" = ANY(${stageTypeIds}::int[]) OR (
+      bs."stageTypeId" <> ALL(${cataloguedTypeIds}::int[]) AND bs.description = ANY(${descriptions}::text[])
+    ))`);
+  }
+  if (filters.house) {
+    conditions.push(Prisma.sql`bs.house = ${filters.house}`);
+  }
+  return conditions;
+}
+
+/**
+ * Full-text search over amendments, most relevant first, or most recently
+ * seen first for feeds. `q` uses web search syntax: "quoted phrases", OR, and
+ * -excluded terms.
+ */
+export async function searchAmendments(
+  q: string,
+  filters: AmendmentFilters,
+  skip: number,
+  take: number,
+  order: 'rank' | 'newest' = 'rank'
+): Promise<{ ids: number[]; ranks: Map<number, number>; total: number }> {
+  const where = Prisma.join(
+    [Prisma.sql`a."searchVector" @@ query`, ...(await filterConditions(filters))],
+    ' AND '
+  );
+  const from = Prisma.sql`
+    FROM amendments a
+    JOIN bill_stages bs ON bs.id = a."billStageId"
+    JOIN bills b ON b.id = bs."billId",
+    websearch_to_tsquery(${TS_CONFIG}::regconfig, ${q}) query
+  `;
+
+  const [rows, countRows] = await Promise.all([
+    prisma.$queryRaw<Array<{ id: number; rank: number }>>`
+      SELECT a.id, ts_rank_cd(a."searchVector", query) AS rank
+      ${from}
+      WHERE ${where}
+      ORDER BY ${order === 'newest' ? Prisma.sql`a."firstSeenAt" DESC` : Prisma.sql`rank DESC`}, a.id DESC
+      OFFSET ${skip} LIMIT ${take}
+    `,
+    prisma.$queryRaw<Array<{ total: bigint }>>`
+      SELECT COUNT(*) AS total ${from} WHERE ${where}
+    `,
+  ]);
+
+  return {
+    ids: rows.map(r => r.id),
+    ranks: new Map(rows.map(r => [r.id, Number(r.rank)])),
+    total: Number(countRows[0]?.total ?? 0),
+  };
+}
+
+/**
+ * Highlighted snippets for matched amendments. Matches are wrapped in
+ * <mark></mark>; fields without a match come back as null.
+ */
+export async function getSearchHighlights(q: string, ids: number[]): Promise<Map<number, SearchHighlights>> {
+  if (ids.length === 0) return new Map();
+
+  const rows = await prisma.$queryRaw<Array<{ id: number } & SearchHighlights>>`
+    SELECT a.id,
+      CASE WHEN to_tsvector(${TS_CONFIG}::regconfig, coalesce(a."summaryText", '')) @@ query
+        THEN ts_headline(${TS_CONFIG}::regconfig, a."summaryText", query, ${HEADLINE_OPTIONS}) END AS "summaryText",
+      CASE WHEN to_tsvector(${TS_CONFIG}::regconfig, coalesce(a."marshalledListText", '')) @@ query
+        THEN ts_headline(${TS_CONFIG}::regconfig, a."marshalledListText", query, ${HEADLINE_OPTIONS}) END AS "marshalledListText",
+      CASE WHEN to_tsvector(${TS_CONFIG}::regconfig, coalesce(a."decisionExplanation", '')) @@ query
+        THEN ts_headline(${TS_CONFIG}::regconfig, a."decisionExplanation", query, ${HEADLINE_OPTIONS}) END AS "decisionExplanation"
+    FROM amendments a, websearch_to_tsquery(${TS_CONFIG}::regconfig, ${q}) query
+    WHERE a.id = ANY(${ids}::int[])
+  `;
+
+  return new Map(rows.map(({ id, ...highlights }) => [id, highlights]));
+}
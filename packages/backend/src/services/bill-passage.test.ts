@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from 'vitest';
+import { prisma } from './db';
+import { getBillPassages, getPassageDistributions } from './bill-passage';
+
+vi.mock('./db', () => ({
+  prisma: {
+    bill: { findMany: vi.fn() },
+    // No catalogue, so stages are grouped by their descriptions
+    stageType: { findMany: async () => [] },
+    session: { findMany: async () => [{ id: 39, name: '2024-25' }] },
+  },
+}));
+
+let nextStageId = 1;
+
+function stage(description: string, house: string, ...dates: string[]) {
+  return {
+    id: nextStageId++,
+    stageTypeId: 0,
+    description,
+    house,
+    sittings: dates.map(date => ({ date: new Date(date) })),
+  };
+}
+
+// A bill in session 39 that had first reading on 1 January 2024 and, if an Act, Royal Assent `days` later
+function bill(id: number, days: number | null) {
+  const stages = [stage('1st reading', 'Commons', '2024-01-01')];
+  if (days !== null) {
+    stages.push(stage('Royal Assent', 'Lords', new Date(Date.UTC(2024, 0, 1 + days)).toISOString()));
+  }
+  return {
+    id,
+    shortTitle: `Bill ${id}`,
+    sessionId: 39,
+    originatingHouse: 'Commons',
+    isAct: days !== null,
+    billType: null,
+    stages,
+  };
+}
+
+function storeBills(bills: object[]) {
+  vi.mocked(prisma.bill.findMany).mockResolvedValue(bills as never);
+}
+
+describe('getBillPassages', () => {
+  it('times each stage until the next one starts, and the last until its final sitting', async () => {
+    storeBills([{
+      ...bill(1, null),
+      isAct: true,
+      stages: [
+        stage('1st reading', 'Commons', '2024-01-01'),
+        stage('2nd reading', 'Commons', '2024-01-15'),
+        stage('Committee stage', 'Commons', '2024-01-20', '2024-01-25'),
+        stage('Carry-over motion', 'Commons'),
+        stage('1st reading', 'Lords', '2024-02-01'),
+        stage('Royal Assent', 'Lords', '2024-03-01'),
+      ],
+    }]);
+
+    const [passage] = await getBillPassages({});
+
+    expect(passage.stages.map(s => [s.description, s.house, s.days])).toEqual([
+      ['1st reading', 'Commons', 14],
+      ['2nd reading', 'Commons', 5],
+      ['Committee stage', 'Commons', 12],
+      ['1st reading', 'Lords', 29],
+      ['Royal Assent', 'Lords', 0],
+    ]);
+    expect(passage.daysByHouse).toEqual({ Commons: 31, Lords: 29 });
+    expect(passage.firstReadingDate).toEqual(new Date('2024-01-01'));
+    expect(passage.daysToRoyalAssent).toBe(60);
+  });
+
+  it('gives bills that are not Acts no Royal Assent', async () => {
+    storeBills([bill(1, null)]);
+
+    const [passage] = await getBillPassages({});
+
+    expect(passage).toMatchObject({ royalAssentDate: null, daysToRoyalAssent: null });
+  });
+});
+
+describe('getPassageDistributions', () => {
+  it('interpolates quantiles over an even number of bills', async () => {
+    storeBills([bill(1, 40), bill(2, 10), bill(3, 30), bill(4, 20)]);
+
+    const [distribution] = await getPassageDistributions({}, 'royalAssent', 'none');
+
+    expect(distribution).toEqual({
+      sessionId: 39,
+      sessionName: '2024-25',
+      group: null,
+      count: 4,
+      min: 10,
+      p10: 13,
+      p25: 17.5,
+      median: 25,
+      p75: 32.5,
+      p90: 37,
+      max: 40,
+      mean: 25,
+    });
+  });
+
+  it('takes the middle bill as the median of an odd number', async () => {
+    storeBills([bill(1, 60), bill(2, 10), bill(3, 20)]);
+
+    const [distribution] = await getPassageDistributions({}, 'royalAssent', 'none');
+
+    expect(distribution).toMatchObject({ count: 3, min: 10, p25: 15, median: 20, p75: 40, max: 60, mean: 30 });
+  });
+
+  it('gives every statistic of a single bill its own value', async () => {
+    storeBills([bill(1, 7)]);
+
+    const [distribution] = await getPassageDistributions({}, 'royalAssent', 'none');
+
+    expect(distribution).toMatchObject({ count: 1, min: 7, p10: 7, p25: 7, median: 7, p75: 7, p90: 7, max: 7, mean: 7 });
+  });
+
+  it('leaves out bills without Royal Assent', async () => {
+    storeBills([bill(1, 7), bill(2, null), bill(3, null)]);
+    expect(await getPassageDistributions({}, 'royalAssent', 'none')).toMatchObject([{ count: 1, median: 7 }]);
+
+    storeBills([bill(2, null)]);
+    expect(await getPassageDistributions({}, 'royalAssent', 'none')).toEqual([]);
+  });
+});
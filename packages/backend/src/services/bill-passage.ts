@@ -0,0 +1,227 @@
+import { prisma } from './db';
+import { loadStageGroupLookup, type StageGroup } from './stage-groups';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PassageFilters {
+  sessionId?: number;
+  originatingHouse?: string;
+  billTypeId?: number;
+  actsOnly?: boolean;
+}
+
+export interface StageDuration {
+  billStageId: number;
+  description: string;
+  stageGroup: StageGroup | null;
+  house: string;
+  startDate: Date;
+  endDate: Date;
+  // Until the next dated stage starts, or the stage's last sitting for the final stage
+  days: number;
+}
+
+export interface BillPassage {
+  billId: number;
+  shortTitle: string;
+  sessionId: number;
+  originatingHouse: string;
+  billType: { id: number; name: string } | null;
+  isAct: boolean;
+  firstReadingDate: Date | null;
+  royalAssentDate: Date | null;
+  daysToRoyalAssent: number | null;
+  daysByHouse: Record<string, number>;
+  stages: StageDuration[];
+}
+
+// What a distribution measures: first reading to Royal Assent, or days spent in a stage group
+export type PassageMetric = 'royalAssent' | StageGroup;
+
+export type PassageGroupBy = 'none' | 'originatingHouse' | 'billType';
+
+export interface PassageDistribution {
+  sessionId: number;
+  sessionName: string;
+  group: string | null;
+  count: number;
+  min: number;
+  p10: number;
+  p25: number;
+  median: number;
+  p75: number;
+  p90: number;
+  max: number;
+  mean: number;
+}
+
+function daysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / DAY_MS);
+}
+
+// Linear interpolation between closest ranks, on sorted values
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Stage timings for each bill matching the filters, from stored sitting
+ * dates. Stages without a dated sitting are left out, so a bill's durations
+ * only cover the stages that have happened.
+ */
+export async function getBillPassages(filters: PassageFilters): Promise<BillPassage[]> {
+  const where: any = {};
+  if (filters.sessionId) {
+    where.sessionId = filters.sessionId;
+  }
+  if (filters.originatingHouse) {
+    where.originatingHouse = filters.originatingHouse;
+  }
+  if (filters.billTypeId) {
+    where.billTypeId = filters.billTypeId;
+  }
+  if (filters.actsOnly) {
+    where.isAct = true;
+  }
+
+  const [bills, stageGroupOf] = await Promise.all([
+    prisma.bill.findMany({
+      where,
+      orderBy: { id: 'desc' },
+      select: {
+        id: true,
+        shortTitle: true,
+        sessionId: true,
+        originatingHouse: true,
+        isAct: true,
+        billType: { select: { id: true, name: true } },
+        stages: {
+          orderBy: { sortOrder: 'asc' },
+          select: {
+            id: true,
+            stageTypeId: true,
+            description: true,
+            house: true,
+            sittings: { where: { date: { not: null } }, select: { date: true } },
+          },
+        },
+      },
+    }),
+    loadStageGroupLookup(),
+  ]);
+
+  return bills.map(bill => {
+    const dated = bill.stages
+      .filter(stage => stage.sittings.length > 0)
+      .map(stage => {
+        const times = stage.sittings.map(s => s.date!.getTime());
+        return {
+          billStageId: stage.id,
+          description: stage.description,
+          stageGroup: stageGroupOf(stage),
+          house: stage.house,
+          startDate: new Date(Math.min(...times)),
+          endDate: new Date(Math.max(...times)),
+        };
+      });
+
+    const stages: StageDuration[] = dated.map((stage, index) => {
+      const next = dated[index + 1];
+      const until = next && next.startDate >= stage.startDate ? next.startDate : stage.endDate;
+      return { ...stage, days: daysBetween(stage.startDate, until) };
+    });
+
+    const daysByHouse: Record<string, number> = {};
+    for (const stage of stages) {
+      if (stage.house !== 'Commons' && stage.house !== 'Lords') continue;
+      daysByHouse[stage.house] = (daysByHouse[stage.house] ?? 0) + stage.days;
+    }
+
+    const firstReading = stages.find(s => s.stageGroup === 'firstReading');
+    const royalAssent = bill.isAct ? stages.find(s => s.stageGroup === 'royalAssent') : undefined;
+
+    return {
+      billId: bill.id,
+      shortTitle: bill.shortTitle,
+      sessionId: bill.sessionId,
+      originatingHouse: bill.originatingHouse,
+      billType: bill.billType,
+      isAct: bill.isAct,
+      firstReadingDate: firstReading?.startDate ?? null,
+      royalAssentDate: royalAssent?.startDate ?? null,
+      daysToRoyalAssent: firstReading && royalAssent ? daysBetween(firstReading.startDate, royalAssent.startDate) : null,
+      daysByHouse,
+      stages,
+    };
+  });
+}
+
+// The value a metric takes for one bill, or null when the bill doesn't have it
+function metricValue(passage: BillPassage, metric: PassageMetric): number | null {
+  if (metric === 'royalAssent') {
+    return passage.daysToRoyalAssent;
+  }
+  const stages = passage.stages.filter(s => s.stageGroup === metric);
+  return stages.length > 0 ? stages.reduce((sum, s) => sum + s.days, 0) : null;
+}
+
+/**
+ * Per-session distributions of a passage metric, split by originating House
+ * or bill type. Bills without a value for the metric (e.g. not yet Acts for
+ * royalAssent) are left out; sessions are ordered oldest first.
+ */
+export async function getPassageDistributions(
+  filters: PassageFilters,
+  metric: PassageMetric,
+  groupBy: PassageGroupBy
+): Promise<PassageDistribution[]> {
+  const [passages, sessions] = await Promise.all([
+    getBillPassages(filters),
+    prisma.session.findMany({ orderBy: { startDate: 'asc' }, select: { id: true, name: true } }),
+  ]);
+
+  const values = new Map<string, { sessionId: number; group: string | null; values: number[] }>();
+  for (const passage of passages) {
+    const value = metricValue(passage, metric);
+    if (value === null) continue;
+
+    const group = groupBy === 'originatingHouse'
+      ? passage.originatingHouse
+      : groupBy === 'billType'
+        ? passage.billType?.name ?? 'Unknown'
+        : null;
+    const key = `${passage.sessionId}:${group ?? ''}`;
+    const entry = values.get(key) ?? { sessionId: passage.sessionId, group, values: [] };
+    entry.values.push(value);
+    values.set(key, entry);
+  }
+
+  const sessionOrder = new Map(sessions.map((s, index) => [s.id, index]));
+  const sessionNames = new Map(sessions.map(s => [s.id, s.name]));
+
+  return Array.from(values.values())
+    .sort((a, b) =>
+      (sessionOrder.get(a.sessionId) ?? 0) - (sessionOrder.get(b.sessionId) ?? 0) ||
+      (a.group ?? '').localeCompare(b.group ?? '')
+    )
+    .map(({ sessionId, group, values: groupValues }) => {
+      const sorted = [...groupValues].sort((a, b) => a - b);
+      return {
+        sessionId,
+        sessionName: sessionNames.get(sessionId) ?? String(sessionId),
+        group,
+        count: sorted.length,
+        min: sorted[0],
+        p10: quantile(sorted, 0.1),
+        p25: quantile(sorted, 0.25),
+        median: quantile(sorted, 0.5),
+        p75: quantile(sorted, 0.75),
+        p90: quantile(sorted, 0.9),
+        max: sorted[sorted.length - 1],
+        mean: sorted.reduce((sum, v) => sum + v, 0) / sorted.length,
+      };
+    });
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi } from 'vitest';
+import { prisma } from './db';
+import { buildCosponsorshipNetwork } from './cosponsorship-network';
+
+vi.mock('./db', () => ({
+  prisma: {
+    amendmentSponsor: { findMany: vi.fn() },
+    member: { findMany: vi.fn() },
+  },
+}));
+
+const PARTIES: Record<number, string> = { 1: 'Labour', 2: 'Labour', 3: 'Conservative', 4: 'Liberal Democrat' };
+
+// Store amendments by their signatories
+function storeSignatures(amendments: Record<number, number[]>) {
+  vi.mocked(prisma.amendmentSponsor.findMany).mockResolvedValue(
+    Object.entries(amendments).flatMap(([amendmentId, memberIds]) =>
+      memberIds.map(memberId => ({ amendmentId: Number(amendmentId), memberId }))
+    ) as never
+  );
+  vi.mocked(prisma.member.findMany).mockImplementation((async ({ where }: { where: { id: { in: number[] } } }) =>
+    where.id.in.map(id => ({
+      id,
+      displayName: `Member ${id}`,
+      party: PARTIES[id],
+      partyColour: null,
+      house: 'Commons',
+    }))) as never);
+}
+
+describe('buildCosponsorshipNetwork', () => {
+  it('puts the hub of a star at the centre', async () => {
+    // Member 1 co-signs one amendment with each of members 2, 3 and 4
+    storeSignatures({ 10: [1, 2], 11: [1, 3], 12: [4, 1] });
+
+    const { nodes } = await buildCosponsorshipNetwork({ sessionId: 39 });
+    const byId = new Map(nodes.map(n => [n.id, n]));
+
+    expect(byId.get(1)).toMatchObject({ degree: 3, amendmentCount: 3, degreeCentrality: 1, betweenness: 1, eigenvector: 1 });
+    for (const leaf of [2, 3, 4]) {
+      const node = byId.get(leaf)!;
+      expect(node).toMatchObject({ degree: 1, amendmentCount: 1, betweenness: 0 });
+      expect(node.degreeCentrality).toBeCloseTo(1 / 3);
+      // The leading eigenvector of the star (with self-loops) is √3 at the hub and 1 at each leaf
+      expect(node.eigenvector).toBeCloseTo(1 / Math.sqrt(3), 5);
+    }
+  });
+
+  it('weights links by shared amendments and drops those below minWeight', async () => {
+    // A path 1 - 2 - 3, where 1 and 2 signed two amendments together
+    storeSignatures({ 10: [1, 2], 11: [2, 1], 12: [2, 3] });
+
+    const network = await buildCosponsorshipNetwork({ sessionId: 39 });
+
+    expect(network.edges).toEqual([
+      { source: 1, target: 2, weight: 2, crossParty: false },
+      { source: 2, target: 3, weight: 1, crossParty: true },
+    ]);
+    expect(network.nodes.map(n => [n.id, n.weightedDegree, n.betweenness])).toEqual([[2, 3, 1], [1, 2, 0], [3, 1, 0]]);
+    expect(network.summary).toEqual({
+      amendmentCount: 3,
+      nodeCount: 3,
+      edgeCount: 2,
+      totalWeight: 3,
+      crossPartyEdges: 1,
+      crossPartyEdgeShare: 0.5,
+      crossPartyWeightShare: 1 / 3,
+    });
+
+    const strong = await buildCosponsorshipNetwork({ sessionId: 39 }, 2);
+    expect(strong.nodes.map(n => n.id).sort()).toEqual([1, 2]);
+    expect(strong.summary).toMatchObject({ edgeCount: 1, crossPartyEdges: 0 });
+  });
+});
@@ -0,0 +1,236 @@
+import { prisma } from './db';
+import { buildAmendmentWhere } from './amendment-filters';
+
+// Scope of the co-sponsorship graph; sessionId or billId should be set, house only narrows it
+export interface NetworkFilters {
+  sessionId?: number;
+  billId?: number;
+  house?: string;
+}
+
+export interface NetworkNode {
+  id: number;
+  displayName: string;
+  party: string;
+  partyColour: string | null;
+  house: string;
+  amendmentCount: number;
+  degree: number;
+  weightedDegree: number;
+  degreeCentrality: number;
+  betweenness: number;
+  eigenvector: number;
+}
+
+export interface NetworkEdge {
+  source: number;
+  target: number;
+  weight: number;
+  crossParty: boolean;
+}
+
+export interface CosponsorshipNetwork {
+  nodes: NetworkNode[];
+  edges: NetworkEdge[];
+  summary: {
+    amendmentCount: number;
+    nodeCount: number;
+    edgeCount: number;
+    totalWeight: number;
+    crossPartyEdges: number;
+    crossPartyEdgeShare: number;
+    crossPartyWeightShare: number;
+  };
+}
+
+const EIGENVECTOR_ITERATIONS = 100;
+const EIGENVECTOR_TOLERANCE = 1e-6;
+
+/**
+ * Build the member co-sponsorship graph. Two members are linked when they
+ * signed the same amendment; the edge weight is the number of amendments
+ * they signed together. Edges below minWeight are dropped, along with
+ * members left without any edge.
+ */
+export async function buildCosponsorshipNetwork(
+  filters: NetworkFilters,
+  minWeight = 1
+): Promise<CosponsorshipNetwork> {
+  const sponsorships = await prisma.amendmentSponsor.findMany({
+    where: { amendment: await buildAmendmentWhere(filters) },
+    select: { amendmentId: true, memberId: true },
+  });
+
+  // Group signatories by amendment
+  const signatories = new Map<number, number[]>();
+  const amendmentCounts = new Map<number, number>();
+  for (const s of sponsorships) {
+    const list = signatories.get(s.amendmentId) ?? [];
+    list.push(s.memberId);
+    signatories.set(s.amendmentId, list);
+    amendmentCounts.set(s.memberId, (amendmentCounts.get(s.memberId) ?? 0) + 1);
+  }
+
+  // Count co-signatures per member pair, keyed "low-high"
+  const pairWeights = new Map<string, number>();
+  for (const memberIds of signatories.values()) {
+    const sorted = [...memberIds].sort((a, b) => a - b);
+    for (let i = 0; i < sorted.length; i++) {
+      for (let j = i + 1; j < sorted.length; j++) {
+        const key = `${sorted[i]}-${sorted[j]}`;
+        pairWeights.set(key, (pairWeights.get(key) ?? 0) + 1);
+      }
+    }
+  }
+
+  const pairs = [...pairWeights.entries()]
+    .filter(([, weight]) => weight >= minWeight)
+    .map(([key, weight]) => {
+      const [source, target] = key.split('-').map(Number);
+      return { source, target, weight };
+    });
+
+  const memberIds = [...new Set(pairs.flatMap(p => [p.source, p.target]))];
+  const members = await prisma.member.findMany({
+    where: { id: { in: memberIds } },
+    select: { id: true, displayName: true, party: true, partyColour: true, house: true },
+  });
+  const memberMap = new Map(members.map(m => [m.id, m]));
+
+  const edges: NetworkEdge[] = pairs
+    .filter(p => memberMap.has(p.source) && memberMap.has(p.target))
+    .map(p => ({
+      ...p,
+      crossParty: memberMap.get(p.source)!.party !== memberMap.get(p.target)!.party,
+    }));
+
+  // Weighted adjacency lists
+  const adjacency = new Map<number, Map<number, number>>();
+  for (const id of memberMap.keys()) adjacency.set(id, new Map());
+  for (const e of edges) {
+    adjacency.get(e.source)!.set(e.target, e.weight);
+    adjacency.get(e.target)!.set(e.source, e.weight);
+  }
+
+  const betweenness = computeBetweenness(adjacency);
+  const eigenvector = computeEigenvector(adjacency);
+  const n = adjacency.size;
+
+  const nodes: NetworkNode[] = members
+    .filter(m => adjacency.get(m.id)!.size > 0)
+    .map(m => {
+      const neighbours = adjacency.get(m.id)!;
+      let weightedDegree = 0;
+      for (const w of neighbours.values()) weightedDegree += w;
+      return {
+        ...m,
+        amendmentCount: amendmentCounts.get(m.id) ?? 0,
+        degree: neighbours.size,
+        weightedDegree,
+        degreeCentrality: n > 1 ? neighbours.size / (n - 1) : 0,
+        betweenness: betweenness.get(m.id) ?? 0,
+        eigenvector: eigenvector.get(m.id) ?? 0,
+      };
+    })
+    .sort((a, b) => b.weightedDegree - a.weightedDegree);
+
+  const totalWeight = edges.reduce((sum, e) => sum + e.weight, 0);
+  const crossPartyEdges = edges.filter(e => e.crossParty);
+  const crossPartyWeight = crossPartyEdges.reduce((sum, e) => sum + e.weight, 0);
+
+  return {
+    nodes,
+    edges,
+    summary: {
+      amendmentCount: signatories.size,
+      nodeCount: nodes.length,
+      edgeCount: edges.length,
+      totalWeight,
+      crossPartyEdges: crossPartyEdges.length,
+      crossPartyEdgeShare: edges.length > 0 ? crossPartyEdges.length / edges.length : 0,
+      crossPartyWeightShare: totalWeight > 0 ? crossPartyWeight / totalWeight : 0,
+    },
+  };
+}
+
+// Normalised betweenness centrality (Brandes' algorithm, unweighted shortest paths)
+function computeBetweenness(adjacency: Map<number, Map<number, number>>): Map<number, number> {
+  const ids = [...adjacency.keys()];
+  const scores = new Map<number, number>(ids.map(id => [id, 0]));
+
+  for (const s of ids) {
+    const stack: number[] = [];
+    const predecessors = new Map<number, number[]>(ids.map(id => [id, []]));
+    const sigma = new Map<number, number>(ids.map(id => [id, 0]));
+    const distance = new Map<number, number>(ids.map(id => [id, -1]));
+    sigma.set(s, 1);
+    distance.set(s, 0);
+
+    const queue: number[] = [s];
+    for (let head = 0; head < queue.length; head++) {
+      const v = queue[head];
+      stack.push(v);
+      for (const w of adjacency.get(v)!.keys()) {
+        if (distance.get(w)! < 0) {
+          distance.set(w, distance.get(v)! + 1);
+          queue.push(w);
+        }
+        if (distance.get(w) === distance.get(v)! + 1) {
+          sigma.set(w, sigma.get(w)! + sigma.get(v)!);
+          predecessors.get(w)!.push(v);
+        }
+      }
+    }
+
+    const delta = new Map<number, number>(ids.map(id => [id, 0]));
+    while (stack.length > 0) {
+      const w = stack.pop()!;
+      for (const v of predecessors.get(w)!) {
+        delta.set(v, delta.get(v)! + (sigma.get(v)! / sigma.get(w)!) * (1 + delta.get(w)!));
+      }
+      if (w !== s) {
+        scores.set(w, scores.get(w)! + delta.get(w)!);
+      }
+    }
+  }
+
+  // Each undirected path is counted from both ends
+  const n = ids.length;
+  const scale = n > 2 ? 1 / ((n - 1) * (n - 2)) : 0;
+  for (const [id, score] of scores) {
+    scores.set(id, score * scale);
+  }
+  return scores;
+}
+
+// Eigenvector centrality on the weighted graph by power iteration, scaled so the top member is 1
+function computeEigenvector(adjacency: Map<number, Map<number, number>>): Map<number, number> {
+  const ids = [...adjacency.keys()];
+  let scores = new Map<number, number>(ids.map(id => [id, 1]));
+
+  for (let i = 0; i < EIGENVECTOR_ITERATIONS; i++) {
+    const next = new Map<number, number>();
+    let max = 0;
+    for (const id of ids) {
+      // Include the node's own score so bipartite components still converge
+      let sum = scores.get(id)!;
+      for (const [neighbour, weight] of adjacency.get(id)!) {
+        sum += weight * scores.get(neighbour)!;
+      }
+      next.set(id, sum);
+      max = Math.max(max, sum);
+    }
+    if (max === 0) return next;
+
+    let change = 0;
+    for (const id of ids) {
+      const value = next.get(id)! / max;
+      change += Math.abs(value - scores.get(id)!);
+      next.set(id, value);
+    }
+    scores = next;
+    if (change < EIGENVECTOR_TOLERANCE * ids.length) break;
+  }
+
+  return scores;
+}
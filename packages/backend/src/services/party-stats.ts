@@ -0,0 +1,130 @@
+import { prisma } from './db';
+
+// Decisions that count as an amendment being agreed
+export const AGREED_DECISIONS = ['Agreed', 'AgreedOnDivision'];
+
+/**
+ * How amendments are attributed to parties. `amendment` counts each
+ * amendment once for every party among its sponsors, however many of the
+ * party's members signed it; `lead` counts it once, for the lead sponsor's party.
+ */
+export type PartyCountBy = 'amendment' | 'lead';
+
+export interface PartySummary {
+  party: string;
+  partyColour: string | null;
+  tabled: number;
+  agreed: number;
+  // Members with at least one counted sponsorship
+  activeMembers: number;
+}
+
+export interface PartyDetail extends PartySummary {
+  decisionBreakdown: Record<string, number>;
+  topMembers: Array<{ id: number; displayName: string; house: string; tabled: number; agreed: number }>;
+  topBills: Array<{ id: number; shortTitle: string; tabled: number; agreed: number }>;
+}
+
+const TOP_LIMIT = 10;
+
+// Sponsorships of amendments matching `amendmentWhere`, lead sponsors only when counting by lead
+async function loadSponsorships(amendmentWhere: any, countBy: PartyCountBy, party?: string) {
+  return prisma.amendmentSponsor.findMany({
+    where: {
+      amendment: amendmentWhere,
+      ...(countBy === 'lead' && { isLead: true }),
+      ...(party && { member: { party } }),
+    },
+    select: {
+      amendmentId: true,
+      member: { select: { id: true, displayName: true, house: true, party: true, partyColour: true } },
+      amendment: { select: { decision: true, billStage: { select: { billId: true } } } },
+    },
+  });
+}
+
+/**
+ * Tabled and agreed amendment counts per party, most amendments first.
+ * `amendmentWhere` is a Prisma amendment filter (see buildAmendmentWhere).
+ */
+export async function getPartySummaries(amendmentWhere: any, countBy: PartyCountBy): Promise<PartySummary[]> {
+  const sponsorships = await loadSponsorships(amendmentWhere, countBy);
+
+  const parties = new Map<string, { partyColour: string | null; amendments: Map<number, string>; members: Set<number> }>();
+  for (const s of sponsorships) {
+    const entry = parties.get(s.member.party) ?? { partyColour: s.member.partyColour, amendments: new Map(), members: new Set() };
+    entry.amendments.set(s.amendmentId, s.amendment.decision);
+    entry.members.add(s.member.id);
+    entry.partyColour ??= s.member.partyColour;
+    parties.set(s.member.party, entry);
+  }
+
+  return Array.from(parties.entries())
+    .map(([party, entry]) => ({
+      party,
+      partyColour: entry.partyColour,
+      tabled: entry.amendments.size,
+      agreed: [...entry.amendments.values()].filter(d => AGREED_DECISIONS.includes(d)).length,
+      activeMembers: entry.members.size,
+    }))
+    .sort((a, b) => b.tabled - a.tabled);
+}
+
+/**
+ * One party's counts with its decision breakdown, most active members and
+ * most amended bills. Returns null when no member belongs to the party.
+ */
+export async function getPartyDetail(party: string, amendmentWhere: any, countBy: PartyCountBy): Promise<PartyDetail | null> {
+  const [member, sponsorships] = await Promise.all([
+    prisma.member.findFirst({ where: { party }, select: { partyColour: true } }),
+    loadSponsorships(amendmentWhere, countBy, party),
+  ]);
+  if (!member) return null;
+
+  const amendments = new Map<number, { decision: string; billId: number }>();
+  const members = new Map<number, { id: number; displayName: string; house: string; tabled: number; agreed: number }>();
+  for (const s of sponsorships) {
+    const agreed = AGREED_DECISIONS.includes(s.amendment.decision) ? 1 : 0;
+    amendments.set(s.amendmentId, { decision: s.amendment.decision, billId: s.amendment.billStage.billId });
+
+    const entry = members.get(s.member.id) ?? { id: s.member.id, displayName: s.member.displayName, house: s.member.house, tabled: 0, agreed: 0 };
+    entry.tabled++;
+    entry.agreed += agreed;
+    members.set(s.member.id, entry);
+  }
+
+  const decisionBreakdown: Record<string, number> = {};
+  const billCounts = new Map<number, { tabled: number; agreed: number }>();
+  for (const { decision, billId } of amendments.values()) {
+    decisionBreakdown[decision] = (decisionBreakdown[decision] || 0) + 1;
+    const entry = billCounts.get(billId) ?? { tabled: 0, agreed: 0 };
+    entry.tabled++;
+    if (AGREED_DECISIONS.includes(decision)) entry.agreed++;
+    billCounts.set(billId, entry);
+  }
+
+  const topBillIds = Array.from(billCounts.entries())
+    .sort((a, b) => b[1].tabled - a[1].tabled)
+    .slice(0, TOP_LIMIT);
+  const billTitles = new Map(
+    (await prisma.bill.findMany({
+      where: { id: { in: topBillIds.map(([id]) => id) } },
+      select: { id: true, shortTitle: true },
+    })).map(b => [b.id, b.shortTitle])
+  );
+
+  return {
+    party,
+    partyColour: member.partyColour,
+    tabled: amendments.size,
+    agreed: Object.entries(decisionBreakdown)
+      .filter(([decision]) => AGREED_DECISIONS.includes(decision))
+      .reduce((sum, [, count]) => sum + count, 0),
+    activeMembers: members.size,
+    decisionBreakdown,
+    topMembers: Array.from(members.values())
+      .sort((a, b) => b.tabled - a.tabled)
+      .slice(0, TOP_LIMIT),
+    topBills: topBillIds.map(([id, counts]) => ({ id, shortTitle: billTitles.get(id) ?? `Bill ${id}`, ...counts })),
+  };
+}
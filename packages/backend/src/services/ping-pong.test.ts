@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from 'vitest';
+import { linkPingPong, parsePingPongRef, type PingPongItem } from './ping-pong';
+import { stageGroupFor } from './stage-groups';
+
+vi.mock('./db', () => ({ prisma: {} }));
+
+describe('parsePingPongRef', () => {
+  it('normalises the first amendment a text names', () => {
+    expect(parsePingPongRef('That this House disagrees with commons amendment 12a and Lords Amendment 3'))
+      .toEqual({ label: 'Commons Amendment 12A', thread: '12' });
+    expect(parsePingPongRef('Page 3, line 4, leave out "may"')).toBeNull();
+    expect(parsePingPongRef(null)).toBeNull();
+  });
+});
+
+describe('linkPingPong', () => {
+  // A Commons bill that goes back and forth four times after third reading in the Lords
+  const stages = [
+    { id: 1, sortOrder: 1, description: '2nd reading' },
+    { id: 2, sortOrder: 2, description: '3rd reading' },
+    { id: 3, sortOrder: 3, description: 'Consideration of Lords amendments' },
+    { id: 4, sortOrder: 4, description: 'Consideration of Commons reasons' },
+    { id: 5, sortOrder: 5, description: 'Consideration of Lords message' },
+    { id: 6, sortOrder: 6, description: 'Commons disagreement and reason' },
+  ].map(({ description, ...stage }) => ({ ...stage, isPingPong: stageGroupFor(description) === 'pingPong' }));
+
+  const item = (amendmentId: number, text: string): PingPongItem => ({ amendmentId, texts: [text] });
+  const items = new Map([
+    [3, [item(31, 'Lords Amendment 12'), item(32, 'Lords Amendment 14'), item(33, 'Commons Amendment 12A in lieu of Lords Amendment 12')]],
+    [4, [item(41, 'Lords Amendment 12B in lieu of Commons Amendment 12A'), item(42, 'Lords Amendment 14')]],
+    [5, [item(51, 'Commons Amendment 12C'), item(52, 'Programme motion')]],
+    [6, [item(61, 'Lords Amendment 12D')]],
+  ]);
+
+  it('numbers every consideration stage as a round, whatever it considers', () => {
+    const { rounds } = linkPingPong(stages, items);
+
+    expect([...rounds]).toEqual([[3, 1], [4, 2], [5, 3], [6, 4]]);
+  });
+
+  it('links each item to its thread in the latest earlier round', () => {
+    const { items: links } = linkPingPong(stages, items);
+
+    expect(Object.fromEntries(links)).toEqual({
+      31: { pingPongRef: 'Lords Amendment 12', respondsToId: null },
+      32: { pingPongRef: 'Lords Amendment 14', respondsToId: null },
+      33: { pingPongRef: 'Commons Amendment 12A', respondsToId: null },
+      41: { pingPongRef: 'Lords Amendment 12B', respondsToId: 31 },
+      42: { pingPongRef: 'Lords Amendment 14', respondsToId: 32 },
+      51: { pingPongRef: 'Commons Amendment 12C', respondsToId: 41 },
+      52: { pingPongRef: null, respondsToId: null },
+      61: { pingPongRef: 'Lords Amendment 12D', respondsToId: 51 },
+    });
+  });
+});
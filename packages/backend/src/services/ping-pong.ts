@@ -0,0 +1,82 @@
+/**
+ * Ping-pong: once both Houses have passed a bill, each in turn considers the
+ * other's amendments until they agree. Every consideration stage is a round.
+ * Motions and amendments in a round name the amendment they concern
+ * ("Lords Amendment 12", "Commons Amendment 12A"); amendments in lieu add a
+ * letter to the number, so items sharing a number form one thread.
+ */
+
+export interface PingPongRef {
+  // As written in the text, normalised, e.g. "Lords Amendment 12A"
+  label: string;
+  // Number the thread is keyed on, without letters, e.g. "12"
+  thread: string;
+}
+
+const REF_PATTERN = /\b(Lords|Commons) amendments? (\d+)([A-Z]{0,3})\b/i;
+
+// The first amendment referenced in a ping-pong item's text, if any
+export function parsePingPongRef(text: string | null): PingPongRef | null {
+  const match = text?.match(REF_PATTERN);
+  if (!match) return null;
+  const house = match[1].charAt(0).toUpperCase() + match[1].slice(1).toLowerCase();
+  return {
+    label: `${house} Amendment ${match[2]}${match[3].toUpperCase()}`,
+    thread: match[2],
+  };
+}
+
+export interface PingPongStage {
+  id: number;
+  sortOrder: number;
+  isPingPong: boolean;
+}
+
+export interface PingPongItem {
+  amendmentId: number;
+  // Summary first, then marshalled list text; the first reference found wins
+  texts: Array<string | null>;
+}
+
+export interface PingPongLinks {
+  // Bill stage ID to round, for ping-pong stages only
+  rounds: Map<number, number>;
+  // Amendment ID to its reference and the item it responds to, for items in ping-pong stages
+  items: Map<number, { pingPongRef: string | null; respondsToId: number | null }>;
+}
+
+/**
+ * Number a bill's ping-pong stages in order and link each item to the first
+ * item of the same thread in the latest earlier round. Items in the first
+ * round, or without a reference, are left unlinked: the other House's
+ * original amendments are renumbered for ping-pong, so they can't be matched.
+ */
+export function linkPingPong(stages: PingPongStage[], items: Map<number, PingPongItem[]>): PingPongLinks {
+  const rounds = new Map<number, number>();
+  const links: PingPongLinks['items'] = new Map();
+  // Thread to the item the next round responds to
+  const latestInThread = new Map<string, number>();
+
+  const pingPongStages = stages.filter(s => s.isPingPong).sort((a, b) => a.sortOrder - b.sortOrder);
+  pingPongStages.forEach((stage, index) => {
+    rounds.set(stage.id, index + 1);
+
+    const firstInThread = new Map<string, number>();
+    for (const item of items.get(stage.id) ?? []) {
+      const ref = item.texts.reduce<PingPongRef | null>((found, text) => found ?? parsePingPongRef(text), null);
+      links.set(item.amendmentId, {
+        pingPongRef: ref?.label ?? null,
+        respondsToId: ref ? latestInThread.get(ref.thread) ?? null : null,
+      });
+      if (ref && !firstInThread.has(ref.thread)) {
+        firstInThread.set(ref.thread, item.amendmentId);
+      }
+    }
+
+    for (const [thread, amendmentId] of firstInThread) {
+      latestInThread.set(thread, amendmentId);
+    }
+  });
+
+  return { rounds, items: links };
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { PrismaClient } from '@prisma/client';
+import { loadStageGroupLookup, stageGroupParamError } from './stage-groups';
+
+// The default client is never used; each test passes its own
+vi.mock('./db', () => ({ prisma: {} }));
+
+// A client whose stage type catalogue lists committee (7, 8) and a procedural type (20)
+function catalogue() {
+  const stageTypes = [
+    { id: 7, stageGroup: 'committee' },
+    { id: 8, stageGroup: 'committee' },
+    { id: 20, stageGroup: null },
+  ];
+  return {
+    stageType: {
+      findMany: async ({ where }: { where?: { id: { in: number[] } } }) =>
+        stageTypes.filter(t => !where || where.id.in.includes(t.id)),
+    },
+  } as unknown as PrismaClient;
+}
+
+describe('loadStageGroupLookup', () => {
+  it('uses the catalogue for the types it lists, even against the description', async () => {
+    const groupOf = await loadStageGroupLookup(catalogue());
+
+    expect(groupOf({ stageTypeId: 7, description: 'Committee stage' })).toBe('committee');
+    expect(groupOf({ stageTypeId: 20, description: 'Money resolution on report' })).toBeNull();
+  });
+
+  it('falls back to the description for types the catalogue lacks', async () => {
+    const groupOf = await loadStageGroupLookup(catalogue());
+
+    expect(groupOf({ stageTypeId: 99, description: 'Consideration of Lords amendments' })).toBe('pingPong');
+    expect(groupOf({ stageTypeId: 99, description: 'Carry-over motion' })).toBeNull();
+  });
+
+  it('only reads the requested types', async () => {
+    const groupOf = await loadStageGroupLookup(catalogue(), [8]);
+
+    expect(groupOf({ stageTypeId: 8, description: 'Grand Committee' })).toBe('committee');
+    expect(groupOf({ stageTypeId: 20, description: '3rd reading' })).toBe('thirdReading');
+  });
+});
+
+describe('stageGroupParamError', () => {
+  it('accepts stage groups and a missing parameter', () => {
+    expect(stageGroupParamError('pingPong')).toBeNull();
+    expect(stageGroupParamError(undefined)).toBeNull();
+  });
+
+  it('rejects anything else', () => {
+    expect(stageGroupParamError('Committee stage')).toContain('stageGroup must be one of');
+    expect(stageGroupParamError(['committee'])).toContain('stageGroup must be one of');
+  });
+});
@@ -0,0 +1,122 @@
+import type { Prisma, PrismaClient } from '@prisma/client';
+import { prisma } from './db';
+
+/**
+ * Normalised stage groups. Both Houses' variants of a stage (e.g. "Committee
+ * stage", "Committee of the whole House", "Grand Committee") share a group;
+ * ping-pong covers each House's consideration of the other's amendments,
+ * and of the messages and reasons that follow in later rounds.
+ */
+export const STAGE_GROUPS = [
+  'firstReading',
+  'secondReading',
+  'committee',
+  'report',
+  'thirdReading',
+  'pingPong',
+  'royalAssent',
+] as const;
+
+export type StageGroup = (typeof STAGE_GROUPS)[number];
+
+export const STAGE_GROUP_LABELS: Record<StageGroup, string> = {
+  firstReading: 'First reading',
+  secondReading: 'Second reading',
+  committee: 'Committee',
+  report: 'Report',
+  thirdReading: 'Third reading',
+  pingPong: 'Ping-pong',
+  royalAssent: 'Royal Assent',
+};
+
+// Matched in order against a stage type name; the first match wins
+const STAGE_GROUP_PATTERNS: Array<[RegExp, StageGroup]> = [
+  [/\b(1st|first) reading\b/i, 'firstReading'],
+  [/\b(2nd|second) reading\b/i, 'secondReading'],
+  [/\b(3rd|third) reading\b/i, 'thirdReading'],
+  [/\b(amendments|messages?|reasons?|disagreement)\b|ping[- ]?pong/i, 'pingPong'],
+  [/\breport\b/i, 'report'],
+  [/\bcommittee\b/i, 'committee'],
+  [/\broyal assent\b/i, 'royalAssent'],
+];
+
+// Whether a value (e.g. a query parameter) names a stage group
+export function isStageGroup(value: unknown): value is StageGroup {
+  return typeof value === 'string' && (STAGE_GROUPS as readonly string[]).includes(value);
+}
+
+// Error message for a stageGroup query parameter that isn't a stage group, or null when it is valid or absent
+export function stageGroupParamError(value: unknown): string | null {
+  return !value || isStageGroup(value) ? null : `stageGroup must be one of: ${STAGE_GROUPS.join(', ')}`;
+}
+
+/**
+ * The group of a stage type name, or null for stages outside the main
+ * sequence (money resolutions, programme motions, carry-over motions).
+ */
+export function stageGroupFor(name: string): StageGroup | null {
+  const match = STAGE_GROUP_PATTERNS.find(([pattern]) => pattern.test(name));
+  return match ? match[1] : null;
+}
+
+// A stage as far as its group is concerned: its type and its own description
+export interface StageGroupKey {
+  stageTypeId: number;
+  description: string;
+}
+
+/**
+ * A lookup from a stage to its group: the stage type catalogue's group for
+ * the types it lists, otherwise the group of the stage's own description.
+ * The sync, statistics, pivots and filters all group stages this way, so a
+ * stage whose type is missing from the catalogue lands in the same group
+ * everywhere. `stageTypeIds` limits the catalogue read to the types needed.
+ */
+export async function loadStageGroupLookup(
+  client: PrismaClient | Prisma.TransactionClient = prisma,
+  stageTypeIds?: number[]
+): Promise<(stage: StageGroupKey) => StageGroup | null> {
+  const stageTypes = await client.stageType.findMany({
+    where: stageTypeIds && { id: { in: stageTypeIds } },
+    select: { id: true, stageGroup: true },
+  });
+  const groupOf = new Map(stageTypes.map(t => [t.id, t.stageGroup as StageGroup | null]));
+  return stage => (groupOf.has(stage.stageTypeId) ? groupOf.get(stage.stageTypeId)! : stageGroupFor(stage.description));
+}
+
+/**
+ * The stages a group covers, matching loadStageGroupLookup: stage types the
+ * catalogue puts in the group, plus descriptions of stored stages whose type
+ * the catalogue doesn't list (`cataloguedTypeIds`) that fall in it by name.
+ */
+export async function stageGroupMembers(group: StageGroup): Promise<{
+  stageTypeIds: number[];
+  cataloguedTypeIds: number[];
+  descriptions: string[];
+}> {
+  const stageTypes = await prisma.stageType.findMany({ select: { id: true, stageGroup: true } });
+  const cataloguedTypeIds = stageTypes.map(t => t.id);
+  const uncatalogued = await prisma.billStage.findMany({
+    where: { stageTypeId: { notIn: cataloguedTypeIds } },
+    distinct: ['description'],
+    select: { description: true },
+  });
+  return {
+    stageTypeIds: stageTypes.filter(t => t.stageGroup === group).map(t => t.id),
+    cataloguedTypeIds,
+    descriptions: uncatalogued.map(s => s.description).filter(d => stageGroupFor(d) === group),
+  };
+}
+
+// Prisma condition on BillStage for the stages in a group
+export async function stageGroupWhere(group: StageGroup): Promise<Prisma.BillStageWhereInput> {
+  const { stageTypeIds, cataloguedTypeIds, descriptions } = await stageGroupMembers(group);
+  return {
+    OR: [
+      { stageTypeId: { in: stageTypeIds } },
+      ...(descriptions.length > 0
+        ? [{ stageTypeId: { notIn: cataloguedTypeIds }, description: { in: descriptions } }]
+        : []),
+    ],
+  };
+}
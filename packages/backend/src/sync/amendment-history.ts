@@ -0,0 +1,126 @@
+import type { PrismaClient, Prisma } from '@prisma/client';
+
+// Amendment fields compared between syncs
+export interface AmendmentFields {
+  billStageId: number;
+  amendmentNumber: string | null;
+  dNum: string | null;
+  amendmentType: string;
+  decision: string;
+  decisionExplanation: string | null;
+  summaryText: string | null;
+  marshalledListText: string | null;
+}
+
+const TRACKED_FIELDS: Array<keyof AmendmentFields> = [
+  'billStageId',
+  'amendmentNumber',
+  'dNum',
+  'amendmentType',
+  'decision',
+  'decisionExplanation',
+  'summaryText',
+  'marshalledListText',
+];
+
+function toValue(value: string | number | null): string | null {
+  return value === null ? null : String(value);
+}
+
+// A row for the amendment_changes table
+export interface AmendmentChangeRow {
+  amendmentId: number;
+  billId: number;
+  billStageId: number;
+  syncLogId: number;
+  changeType: string;
+  field: string | null;
+  oldValue: string | null;
+  newValue: string | null;
+}
+
+/**
+ * History rows for an amendment seen by a sync run.
+ * `existing` is the stored amendment before this sync wrote it (null if new);
+ * a new amendment gets a single 'created' row plus its initial sponsors.
+ */
+export function diffAmendment(
+  syncLogId: number,
+  billId: number,
+  amendmentId: number,
+  existing: (AmendmentFields & { sponsorIds: number[] }) | null,
+  incoming: AmendmentFields,
+  incomingSponsorIds: number[]
+): AmendmentChangeRow[] {
+  const billStageId = incoming.billStageId;
+  const changes: AmendmentChangeRow[] = [];
+
+  if (!existing) {
+    changes.push({ amendmentId, billId, billStageId, syncLogId, changeType: 'created', field: null, oldValue: null, newValue: null });
+  } else {
+    for (const field of TRACKED_FIELDS) {
+      const oldValue = toValue(existing[field]);
+      const newValue = toValue(incoming[field]);
+      if (oldValue !== newValue) {
+        changes.push({ amendmentId, billId, billStageId, syncLogId, changeType: 'updated', field, oldValue, newValue });
+      }
+    }
+  }
+
+  const oldSponsors = new Set(existing?.sponsorIds ?? []);
+  const newSponsors = new Set(incomingSponsorIds);
+  for (const memberId of newSponsors) {
+    if (!oldSponsors.has(memberId)) {
+      changes.push({ amendmentId, billId, billStageId, syncLogId, changeType: 'sponsorAdded', field: 'sponsors', oldValue: null, newValue: String(memberId) });
+    }
+  }
+  for (const memberId of oldSponsors) {
+    if (!newSponsors.has(memberId)) {
+      changes.push({ amendmentId, billId, billStageId, syncLogId, changeType: 'sponsorRemoved', field: 'sponsors', oldValue: String(memberId), newValue: null });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Append history rows for an amendment seen by a sync run (see diffAmendment).
+ * Returns the number of rows written.
+ */
+export async function recordAmendmentChanges(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  syncLogId: number,
+  billId: number,
+  amendmentId: number,
+  existing: (AmendmentFields & { sponsorIds: number[] }) | null,
+  incoming: AmendmentFields,
+  incomingSponsorIds: number[]
+): Promise<number> {
+  const changes = diffAmendment(syncLogId, billId, amendmentId, existing, incoming, incomingSponsorIds);
+  if (changes.length > 0) {
+    await prisma.amendmentChange.createMany({ data: changes });
+  }
+  return changes.length;
+}
+
+/**
+ * Append 'removed' history rows for amendments deleted as stale.
+ */
+export async function recordAmendmentRemovals(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  syncLogId: number,
+  billId: number,
+  billStageId: number,
+  amendmentIds: number[]
+): Promise<void> {
+  if (amendmentIds.length === 0) return;
+  await prisma.amendmentChange.createMany({
+    data: amendmentIds.map(amendmentId => ({
+      amendmentId,
+      billId,
+      billStageId,
+      syncLogId,
+      changeType: 'removed',
+    })),
+  });
+}
@@ -0,0 +1,240 @@
+/**
+ * Benchmark sync database writes on recorded fixture data.
+ *
+ * Compares the batched, transactional bill writer with the row-by-row writes
+ * sync used before, on the same bills. Each strategy writes the bills into an
+ * empty state ("cold") and then again unchanged ("warm"). The bills' stored
+ * data is deleted between runs, so point DATABASE_URL at a scratch database.
+ *
+ *   pnpm --filter @bill-data-app/backend run sync:benchmark -- \
+ *     --fixtures fixtures/parliament-api --session 39 [--limit 20] --yes
+ *
+ * The session must already be stored (replay a sync into the database first).
+ */
+import { PrismaClient, type Prisma } from '@prisma/client';
+import { ParliamentApiClient } from '../parliament-api';
+import { fetchBillData, writeBill, type BillData } from './bill-writer';
+import { recordAmendmentChanges, recordAmendmentRemovals } from './amendment-history';
+import { recordBillChange } from './bill-history';
+import { updateSearchVectors } from '../services/amendment-search';
+
+const prisma = new PrismaClient();
+
+type Strategy = (client: PrismaClient, data: BillData, sessionId: number, syncLogId: number) => Promise<void>;
+
+function argValue(flag: string): string | undefined {
+  const index = process.argv.indexOf(flag);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+// The batched writer, one transaction per bill, as used by sync
+const batched: Strategy = async (client, data, sessionId, syncLogId) => {
+  await client.$transaction(tx => writeBill(tx, data, sessionId, syncLogId), { timeout: 120_000 });
+};
+
+// Sync's previous writes: an upsert or create per row, no transaction
+const rowByRow: Strategy = async (client, data, sessionId, syncLogId) => {
+  const { bill } = data;
+  const actualSessionId = bill.includedSessionIds?.length ? Math.max(...bill.includedSessionIds) : sessionId;
+  const existingBill = await client.bill.findUnique({ where: { id: bill.billId } });
+  const billFields = {
+    shortTitle: bill.shortTitle,
+    longTitle: bill.longTitle || null,
+    introducedSessionId: bill.introducedSessionId,
+    originatingHouse: bill.originatingHouse,
+    currentHouse: bill.currentHouse,
+    isWithdrawn: bill.billWithdrawn !== null && bill.billWithdrawn !== undefined,
+    isDefeated: bill.isDefeated,
+    isAct: bill.isAct,
+    lastUpdate: new Date(bill.lastUpdate),
+  };
+  await client.bill.upsert({
+    where: { id: bill.billId },
+    update: billFields,
+    create: { id: bill.billId, sessionId: actualSessionId, ...billFields },
+  });
+  await recordBillChange(client, syncLogId, bill.billId, null, existingBill, { ...billFields, sessionId: actualSessionId });
+
+  const existingStages = new Map(
+    (await client.billStage.findMany({ where: { billId: bill.billId } })).map(s => [s.id, s])
+  );
+
+  for (const stage of data.stages) {
+    const stageFields = {
+      billId: bill.billId,
+      stageTypeId: stage.stageId,
+      description: stage.description,
+      house: stage.house,
+      sortOrder: stage.sortOrder,
+    };
+    await client.billStage.upsert({ where: { id: stage.id }, update: stageFields, create: { id: stage.id, ...stageFields } });
+    await recordBillChange(client, syncLogId, bill.billId, stage.id, existingStages.get(stage.id) ?? null, stageFields);
+
+    for (const sitting of stage.stageSittings || []) {
+      const sittingFields = {
+        billStageId: stage.id,
+        billId: bill.billId,
+        stageId: sitting.stageId,
+        date: sitting.date ? new Date(sitting.date) : null,
+      };
+      await client.billStageSitting.upsert({ where: { id: sitting.id }, update: sittingFields, create: { id: sitting.id, ...sittingFields } });
+    }
+
+    const amendments = data.amendments.get(stage.id) ?? [];
+    for (const amendment of amendments) {
+      const fields = {
+        billStageId: stage.id,
+        amendmentNumber: amendment.lineNumber?.toString() || null,
+        dNum: amendment.dNum ?? null,
+        amendmentType: amendment.amendmentType,
+        decision: amendment.decision,
+        decisionExplanation: amendment.decisionExplanation || null,
+        summaryText: amendment.summaryText?.join('\n') || null,
+        marshalledListText: amendment.marshalledListText || null,
+      };
+      const existing = await client.amendment.findUnique({
+        where: { id: amendment.amendmentId },
+        include: { sponsors: { select: { memberId: true } } },
+      });
+      await client.amendment.upsert({ where: { id: amendment.amendmentId }, update: fields, create: { id: amendment.amendmentId, ...fields } });
+      await client.amendmentSponsor.deleteMany({ where: { amendmentId: amendment.amendmentId } });
+
+      for (const sponsor of amendment.sponsors) {
+        const member = {
+          name: sponsor.name,
+          displayName: sponsor.name,
+          party: sponsor.party || 'Unknown',
+          partyColour: sponsor.partyColour || null,
+          house: sponsor.house || 'Unknown',
+          memberFrom: sponsor.memberFrom || '',
+          thumbnailUrl: sponsor.memberPhoto || null,
+        };
+        await client.member.upsert({ where: { id: sponsor.memberId }, update: member, create: { id: sponsor.memberId, ...member } });
+        await client.amendmentSponsor.create({
+          data: {
+            amendmentId: amendment.amendmentId,
+            memberId: sponsor.memberId,
+            isLead: sponsor.sortOrder === 0,
+            sortOrder: sponsor.sortOrder,
+          },
+        });
+      }
+
+      await recordAmendmentChanges(
+        client,
+        syncLogId,
+        bill.billId,
+        amendment.amendmentId,
+        existing && { ...existing, sponsorIds: existing.sponsors.map(s => s.memberId) },
+        fields,
+        amendment.sponsors.map(s => s.memberId)
+      );
+    }
+
+    if (amendments.length > 0) {
+      await updateSearchVectors(client, amendments.map(a => a.amendmentId));
+    }
+
+    const apiIds = new Set(amendments.map(a => a.amendmentId));
+    const staleIds = (await client.amendment.findMany({ where: { billStageId: stage.id }, select: { id: true } }))
+      .map(a => a.id)
+      .filter(id => !apiIds.has(id));
+    if (staleIds.length > 0) {
+      await client.amendmentSponsor.deleteMany({ where: { amendmentId: { in: staleIds } } });
+      await client.amendment.deleteMany({ where: { id: { in: staleIds } } });
+      await recordAmendmentRemovals(client, syncLogId, bill.billId, stage.id, staleIds);
+    }
+  }
+};
+
+// Delete the bills' stored stages, sittings, amendments and sponsors, and bill sponsors (members are kept)
+async function clearBills(billIds: number[]): Promise<void> {
+  const where: Prisma.AmendmentWhereInput = { billStage: { billId: { in: billIds } } };
+  await prisma.amendmentSponsor.deleteMany({ where: { amendment: where } });
+  await prisma.amendment.deleteMany({ where });
+  await prisma.billStageSitting.deleteMany({ where: { billId: { in: billIds } } });
+  await prisma.billStage.deleteMany({ where: { billId: { in: billIds } } });
+  await prisma.billSponsor.deleteMany({ where: { billId: { in: billIds } } });
+  await prisma.bill.deleteMany({ where: { id: { in: billIds } } });
+}
+
+// Source rows each write covers: bill, stages, sittings, amendments and sponsorships
+function countRows(bills: BillData[]): number {
+  let rows = 0;
+  for (const data of bills) {
+    rows += 1 + data.stages.length;
+    rows += data.stages.reduce((sum, stage) => sum + (stage.stageSittings?.length ?? 0), 0);
+    for (const amendments of data.amendments.values()) {
+      rows += amendments.length + amendments.reduce((sum, a) => sum + a.sponsors.length, 0);
+    }
+  }
+  return rows;
+}
+
+async function timeWrites(strategy: Strategy, bills: BillData[], sessionId: number, syncLogId: number): Promise<number> {
+  const start = performance.now();
+  for (const data of bills) {
+    await strategy(prisma, data, sessionId, syncLogId);
+  }
+  return (performance.now() - start) / 1000;
+}
+
+async function main() {
+  const fixtures = argValue('--fixtures');
+  const sessionId = parseInt(argValue('--session') ?? '');
+  const limit = parseInt(argValue('--limit') ?? '') || 20;
+
+  if (!fixtures || isNaN(sessionId)) {
+    console.error('Usage: benchmark-sync --fixtures <dir> --session <id> [--limit <n>] --yes');
+    process.exit(1);
+  }
+  if (!process.argv.includes('--yes')) {
+    console.error('The benchmark deletes and rewrites the selected bills. Run it against a scratch database and pass --yes.');
+    process.exit(1);
+  }
+
+  const session = await prisma.session.findUnique({ where: { id: sessionId } });
+  if (!session) {
+    console.error(`Session ${sessionId} is not stored; replay a sync from the fixtures first`);
+    process.exit(1);
+  }
+
+  // Load the bills from fixtures once, so only database writes are timed
+  const api = new ParliamentApiClient({ replayDir: fixtures });
+  const sessionBills = (await api.getBillsForSession(sessionId)).slice(0, limit);
+  const bills: BillData[] = [];
+  for (const bill of sessionBills) {
+    bills.push(await fetchBillData(bill, api));
+  }
+  const billIds = bills.map(b => b.bill.billId);
+  const rows = countRows(bills);
+  console.log(`\nBenchmarking ${bills.length} bills (${rows.toLocaleString()} rows) from session ${session.name}\n`);
+
+  const syncLog = await prisma.syncLog.create({
+    data: { type: 'benchmark', status: 'completed', completedAt: new Date() },
+  });
+
+  try {
+    const strategies: Array<[string, Strategy]> = [['row-by-row', rowByRow], ['batched', batched]];
+    for (const [name, strategy] of strategies) {
+      await clearBills(billIds);
+      const cold = await timeWrites(strategy, bills, sessionId, syncLog.id);
+      const warm = await timeWrites(strategy, bills, sessionId, syncLog.id);
+      console.log(
+        `${name.padEnd(12)} cold ${cold.toFixed(2)}s (${Math.round(rows / cold).toLocaleString()} rows/s)  ` +
+        `warm ${warm.toFixed(2)}s (${Math.round(rows / warm).toLocaleString()} rows/s)`
+      );
+    }
+  } finally {
+    // Drop the history rows the benchmark wrote
+    await prisma.amendmentChange.deleteMany({ where: { syncLogId: syncLog.id } });
+    await prisma.billChange.deleteMany({ where: { syncLogId: syncLog.id } });
+    await prisma.syncLog.delete({ where: { id: syncLog.id } });
+    await prisma.$disconnect();
+  }
+}
+
+main().catch(error => {
+  console.error('Benchmark failed:', error);
+  process.exit(1);
+});
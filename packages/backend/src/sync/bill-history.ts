@@ -0,0 +1,66 @@
+import type { PrismaClient, Prisma } from '@prisma/client';
+
+type FieldValues = Record<string, string | number | boolean | Date | null>;
+
+function normalise(value: string | number | boolean | Date | null | undefined): string | null {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+// Names of fields in `incoming` whose values differ from `existing`
+function changedFields(existing: FieldValues, incoming: FieldValues): string[] {
+  return Object.keys(incoming).filter(key => normalise(existing[key]) !== normalise(incoming[key]));
+}
+
+// A row for the bill_changes table
+export interface BillChangeRow {
+  billId: number;
+  billStageId: number | null;
+  syncLogId: number;
+  changeType: string;
+  fields?: string;
+  detail?: string;
+}
+
+/**
+ * The history row for a bill, or one of its stages when `billStageId` is
+ * given, seen by a sync run: 'created' when `existing` (the stored record
+ * before this sync wrote it) is null, 'updated' listing the changed fields,
+ * or null if nothing changed.
+ */
+export function diffBill(
+  syncLogId: number,
+  billId: number,
+  billStageId: number | null,
+  existing: FieldValues | null,
+  incoming: FieldValues
+): BillChangeRow | null {
+  if (!existing) {
+    return { billId, billStageId, syncLogId, changeType: 'created' };
+  }
+
+  const fields = changedFields(existing, incoming);
+  if (fields.length === 0) return null;
+
+  return { billId, billStageId, syncLogId, changeType: 'updated', fields: fields.join(',') };
+}
+
+/**
+ * Append the history row for a bill or stage seen by a sync run (see
+ * diffBill). Returns the number of rows written.
+ */
+export async function recordBillChange(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  syncLogId: number,
+  billId: number,
+  billStageId: number | null,
+  existing: FieldValues | null,
+  incoming: FieldValues
+): Promise<number> {
+  const change = diffBill(syncLogId, billId, billStageId, existing, incoming);
+  if (!change) return 0;
+
+  await prisma.billChange.create({ data: change });
+  return 1;
+}
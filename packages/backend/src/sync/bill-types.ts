@@ -0,0 +1,25 @@
+import type { PrismaClient } from '@prisma/client';
+import { parliamentApi } from '../parliament-api';
+
+/**
+ * Fetch bill types from the Bills API and upsert them. Runs before any bills
+ * are written, since bills reference their type. Returns the number stored.
+ */
+export async function syncBillTypes(prisma: PrismaClient): Promise<number> {
+  const billTypes = await parliamentApi.getBillTypes();
+
+  for (const billType of billTypes) {
+    const fields = {
+      name: billType.name,
+      category: billType.category,
+      description: billType.description || null,
+    };
+    await prisma.billType.upsert({
+      where: { id: billType.id },
+      update: fields,
+      create: { id: billType.id, ...fields },
+    });
+  }
+
+  return billTypes.length;
+}
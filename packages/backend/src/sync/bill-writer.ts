@@ -0,0 +1,503 @@
+import type { Prisma } from '@prisma/client';
+import { parliamentApi, type ParliamentApiClient } from '../parliament-api';
+import { diffAmendment, recordAmendmentRemovals, type AmendmentChangeRow, type AmendmentFields } from './amendment-history';
+import { diffBill, type BillChangeRow } from './bill-history';
+import { updateSearchVectors } from '../services/amendment-search';
+import { linkPingPong } from '../services/ping-pong';
+import { loadStageGroupLookup } from '../services/stage-groups';
+import type {
+  ParliamentBill,
+  ParliamentBillSponsor,
+  ParliamentBillStage,
+  ParliamentAmendment,
+  ParliamentSponsor,
+} from '@bill-data-app/shared';
+
+// A bill with its sponsors, stages and each stage's amendments, as fetched from the Bills API
+export interface BillData {
+  bill: ParliamentBill;
+  sponsors: ParliamentBillSponsor[];
+  stages: ParliamentBillStage[];
+  // Keyed by bill stage ID
+  amendments: Map<number, ParliamentAmendment[]>;
+}
+
+// What writeBill changed, added to the sync stats once its transaction commits
+export interface BillWriteCounts {
+  stagesProcessed: number;
+  stagesRemoved: number;
+  sittingsRemoved: number;
+  amendmentsProcessed: number;
+  amendmentsRemoved: number;
+  amendmentChanges: number;
+  billChanges: number;
+}
+
+/**
+ * Fetch everything stored for a bill before any of it is written, so the
+ * database transaction isn't held open across API requests.
+ */
+export async function fetchBillData(bill: ParliamentBill, api: ParliamentApiClient = parliamentApi): Promise<BillData> {
+  // Bill lists don't include sponsors, so fetch the bill itself unless it already was
+  const sponsors = bill.sponsors ?? (await api.getBill(bill.billId)).sponsors ?? [];
+
+  const stages = await api.getBillStages(bill.billId);
+  console.log(`    Found ${stages.length} stages`);
+
+  const amendments = new Map<number, ParliamentAmendment[]>();
+  for (const stage of stages) {
+    const stageAmendments = await api.getAmendments(bill.billId, stage.id);
+    if (stageAmendments.length > 0) {
+      console.log(`      Stage "${stage.description}": ${stageAmendments.length} amendments`);
+    }
+    amendments.set(stage.id, stageAmendments);
+  }
+
+  return { bill, sponsors, stages, amendments };
+}
+
+function amendmentFields(amendment: ParliamentAmendment, billStageId: number): AmendmentFields {
+  return {
+    billStageId,
+    amendmentNumber: amendment.lineNumber?.toString() || null,
+    dNum: amendment.dNum ?? null,
+    amendmentType: amendment.amendmentType,
+    decision: amendment.decision,
+    decisionExplanation: amendment.decisionExplanation || null,
+    summaryText: amendment.summaryText?.join('\n') || null,
+    marshalledListText: amendment.marshalledListText || null,
+  };
+}
+
+// Sponsor list in signing order, for spotting changes
+function sponsorKey(sponsors: Array<{ memberId: number; sortOrder: number }>): string {
+  return [...sponsors]
+    .sort((a, b) => a.sortOrder - b.sortOrder || a.memberId - b.memberId)
+    .map(s => `${s.memberId}:${s.sortOrder}`)
+    .join(',');
+}
+
+/**
+ * Delete a bill's stored stages that the API no longer lists, with their
+ * sittings, amendments and sponsors, and any other sittings no longer listed
+ * (e.g. a rescheduled sitting). Removed amendments get history rows here; the
+ * returned bill change rows snapshot each removed stage and sitting.
+ */
+async function removeStaleStages(
+  tx: Prisma.TransactionClient,
+  billId: number,
+  stages: ParliamentBillStage[],
+  apiSittingIds: number[],
+  syncLogId: number
+): Promise<{ changes: BillChangeRow[]; stages: number; sittings: number; amendments: number }> {
+  const changes: BillChangeRow[] = [];
+
+  const staleStages = await tx.billStage.findMany({
+    where: { billId, id: { notIn: stages.map(s => s.id) } },
+    include: { sittings: true, amendments: { select: { id: true } } },
+  });
+  const staleStageIds = staleStages.map(s => s.id);
+
+  const staleSittings = await tx.billStageSitting.findMany({
+    where: {
+      OR: [{ billId }, { billStageId: { in: staleStageIds } }],
+      id: { notIn: apiSittingIds },
+    },
+  });
+
+  let amendments = 0;
+  for (const stage of staleStages) {
+    const amendmentIds = stage.amendments.map(a => a.id);
+    console.log(`      Removing stale stage "${stage.description}" (ID: ${stage.id}) with ${stage.sittings.length} sitting(s) and ${amendmentIds.length} amendment(s)`);
+    if (amendmentIds.length > 0) {
+      await tx.amendmentSponsor.deleteMany({ where: { amendmentId: { in: amendmentIds } } });
+      await tx.amendment.deleteMany({ where: { id: { in: amendmentIds } } });
+      await recordAmendmentRemovals(tx, syncLogId, billId, stage.id, amendmentIds);
+      amendments += amendmentIds.length;
+    }
+    changes.push({
+      billId,
+      billStageId: stage.id,
+      syncLogId,
+      changeType: 'removed',
+      detail: JSON.stringify({
+        stageTypeId: stage.stageTypeId,
+        description: stage.description,
+        house: stage.house,
+        sortOrder: stage.sortOrder,
+        sittings: stage.sittings.map(s => ({ id: s.id, date: s.date })),
+        amendmentIds,
+      }),
+    });
+  }
+
+  // Sittings of removed stages are recorded in the stage snapshot above
+  for (const sitting of staleSittings) {
+    if (staleStageIds.includes(sitting.billStageId)) continue;
+    console.log(`      Removing stale sitting ${sitting.id} (${sitting.date?.toISOString().slice(0, 10) ?? 'no date'}) from stage ${sitting.billStageId}`);
+    changes.push({
+      billId,
+      billStageId: sitting.billStageId,
+      syncLogId,
+      changeType: 'sittingRemoved',
+      fields: 'sittings',
+      detail: JSON.stringify({ id: sitting.id, stageId: sitting.stageId, date: sitting.date }),
+    });
+  }
+
+  if (staleSittings.length > 0) {
+    await tx.billStageSitting.deleteMany({ where: { id: { in: staleSittings.map(s => s.id) } } });
+  }
+  if (staleStageIds.length > 0) {
+    await tx.billStage.deleteMany({ where: { id: { in: staleStageIds } } });
+  }
+
+  return { changes, stages: staleStages.length, sittings: staleSittings.length, amendments };
+}
+
+/**
+ * Store the bill's ping-pong rounds and the links between ping-pong items.
+ * They're derived from the stages and amendment text rather than read from
+ * the API, so they aren't recorded as changes; only differing rows are updated.
+ */
+async function writePingPong(tx: Prisma.TransactionClient, data: BillData): Promise<void> {
+  const { bill, stages } = data;
+
+  const stageGroupOf = await loadStageGroupLookup(tx, stages.map(s => s.stageId));
+  const links = linkPingPong(
+    stages.map(stage => ({
+      id: stage.id,
+      sortOrder: stage.sortOrder,
+      isPingPong: stageGroupOf({ stageTypeId: stage.stageId, description: stage.description }) === 'pingPong',
+    })),
+    new Map(stages.map(stage => [
+      stage.id,
+      (data.amendments.get(stage.id) ?? []).map(amendment => ({
+        amendmentId: amendment.amendmentId,
+        texts: [amendment.summaryText?.join('\n') || null, amendment.marshalledListText || null],
+      })),
+    ]))
+  );
+
+  const storedStages = await tx.billStage.findMany({
+    where: { billId: bill.billId },
+    select: { id: true, pingPongRound: true },
+  });
+  for (const stage of storedStages) {
+    const round = links.rounds.get(stage.id) ?? null;
+    if (stage.pingPongRound !== round) {
+      await tx.billStage.update({ where: { id: stage.id }, data: { pingPongRound: round } });
+    }
+  }
+
+  const storedItems = await tx.amendment.findMany({
+    where: {
+      billStage: { billId: bill.billId },
+      OR: [
+        { id: { in: [...links.items.keys()] } },
+        { pingPongRef: { not: null } },
+        { respondsToId: { not: null } },
+      ],
+    },
+    select: { id: true, pingPongRef: true, respondsToId: true },
+  });
+  for (const item of storedItems) {
+    const link = links.items.get(item.id) ?? { pingPongRef: null, respondsToId: null };
+    if (item.pingPongRef !== link.pingPongRef || item.respondsToId !== link.respondsToId) {
+      await tx.amendment.update({ where: { id: item.id }, data: link });
+    }
+  }
+}
+
+/**
+ * Write a fetched bill inside a transaction: the bill, its stages and
+ * sittings, amendments and sponsors, change history, and removal of
+ * stages, sittings and amendments no longer in the API. New rows are inserted with createMany and
+ * only rows that changed are updated, so an unchanged bill costs a handful of
+ * queries. Run it in a transaction so readers never see a half-written bill.
+ */
+export async function writeBill(
+  tx: Prisma.TransactionClient,
+  data: BillData,
+  sessionId: number,
+  syncLogId: number
+): Promise<BillWriteCounts> {
+  const { bill, stages } = data;
+  const counts: BillWriteCounts = {
+    stagesProcessed: 0,
+    stagesRemoved: 0,
+    sittingsRemoved: 0,
+    amendmentsProcessed: 0,
+    amendmentsRemoved: 0,
+    amendmentChanges: 0,
+    billChanges: 0,
+  };
+  const billChanges: BillChangeRow[] = [];
+  const amendmentChanges: AmendmentChangeRow[] = [];
+
+  // Carry-over bills are assigned to their most recent active session
+  const actualSessionId = bill.includedSessionIds && bill.includedSessionIds.length > 0
+    ? Math.max(...bill.includedSessionIds)
+    : sessionId;
+
+  const existingBill = await tx.bill.findUnique({ where: { id: bill.billId } });
+
+  // Only move the bill if it is new or the session is more recent
+  const shouldUpdateSession = !existingBill || actualSessionId > existingBill.sessionId;
+
+  const billFields = {
+    shortTitle: bill.shortTitle,
+    longTitle: bill.longTitle || null,
+    introducedSessionId: bill.introducedSessionId,
+    originatingHouse: bill.originatingHouse,
+    currentHouse: bill.currentHouse,
+    isWithdrawn: bill.billWithdrawn !== null && bill.billWithdrawn !== undefined,
+    isDefeated: bill.isDefeated,
+    isAct: bill.isAct,
+    lastUpdate: new Date(bill.lastUpdate),
+    billTypeId: bill.billTypeId ?? null,
+  };
+
+  await tx.bill.upsert({
+    where: { id: bill.billId },
+    update: {
+      ...billFields,
+      ...(shouldUpdateSession && { sessionId: actualSessionId }),
+    },
+    create: {
+      id: bill.billId,
+      sessionId: actualSessionId,
+      ...billFields,
+    },
+  });
+  const billChange = diffBill(syncLogId, bill.billId, null, existingBill, {
+    ...billFields,
+    sessionId: existingBill && !shouldUpdateSession ? existingBill.sessionId : actualSessionId,
+  });
+  if (billChange) billChanges.push(billChange);
+
+  // Stages: insert new ones together, update only those that changed
+  const existingStages = new Map(
+    (await tx.billStage.findMany({ where: { id: { in: stages.map(s => s.id) } } })).map(s => [s.id, s])
+  );
+  const newStages: Prisma.BillStageCreateManyInput[] = [];
+  for (const stage of stages) {
+    const stageFields = {
+      billId: bill.billId,
+      stageTypeId: stage.stageId,
+      description: stage.description,
+      house: stage.house,
+      sortOrder: stage.sortOrder,
+    };
+    const existing = existingStages.get(stage.id) ?? null;
+    const change = diffBill(syncLogId, bill.billId, stage.id, existing, stageFields);
+
+    if (!existing) {
+      newStages.push({ id: stage.id, ...stageFields });
+    } else if (change) {
+      await tx.billStage.update({ where: { id: stage.id }, data: stageFields });
+    }
+    if (change) billChanges.push(change);
+    counts.stagesProcessed++;
+  }
+  if (newStages.length > 0) {
+    await tx.billStage.createMany({ data: newStages });
+  }
+
+  // Sittings
+  const sittings = stages.flatMap(stage => (stage.stageSittings || []).map(sitting => ({
+    id: sitting.id,
+    billStageId: stage.id,
+    billId: bill.billId,
+    stageId: sitting.stageId,
+    date: sitting.date ? new Date(sitting.date) : null,
+  })));
+  const existingSittings = new Map(
+    (await tx.billStageSitting.findMany({ where: { id: { in: sittings.map(s => s.id) } } })).map(s => [s.id, s])
+  );
+  const newSittings: Prisma.BillStageSittingCreateManyInput[] = [];
+  for (const sitting of sittings) {
+    const existing = existingSittings.get(sitting.id);
+    if (!existing) {
+      newSittings.push(sitting);
+    } else if (
+      existing.billStageId !== sitting.billStageId ||
+      existing.billId !== sitting.billId ||
+      existing.stageId !== sitting.stageId ||
+      existing.date?.getTime() !== sitting.date?.getTime()
+    ) {
+      const { id, ...fields } = sitting;
+      await tx.billStageSitting.update({ where: { id }, data: fields });
+    }
+  }
+  if (newSittings.length > 0) {
+    await tx.billStageSitting.createMany({ data: newSittings, skipDuplicates: true });
+  }
+
+  // Members: create any sponsor not stored yet. Existing members are left for
+  // the member details refresh at the end of the sync, which covers every sponsor.
+  const sponsors = new Map<number, ParliamentSponsor>();
+  for (const { member, sortOrder } of data.sponsors) {
+    if (member) sponsors.set(member.memberId, { ...member, sortOrder });
+  }
+  for (const amendments of data.amendments.values()) {
+    for (const amendment of amendments) {
+      for (const sponsor of amendment.sponsors) {
+        sponsors.set(sponsor.memberId, sponsor);
+      }
+    }
+  }
+  const storedMemberIds = new Set(
+    (await tx.member.findMany({ where: { id: { in: [...sponsors.keys()] } }, select: { id: true } })).map(m => m.id)
+  );
+  const newMembers = [...sponsors.values()]
+    .filter(sponsor => !storedMemberIds.has(sponsor.memberId))
+    .map(sponsor => ({
+      id: sponsor.memberId,
+      name: sponsor.name,
+      displayName: sponsor.name,
+      party: sponsor.party || 'Unknown',
+      partyColour: sponsor.partyColour || null,
+      house: sponsor.house || 'Unknown',
+      memberFrom: sponsor.memberFrom || '',
+      thumbnailUrl: sponsor.memberPhoto || null,
+    }));
+  if (newMembers.length > 0) {
+    await tx.member.createMany({ data: newMembers, skipDuplicates: true });
+  }
+
+  // Bill sponsors: rewrite the list only when it changed
+  const billSponsors = data.sponsors.map(sponsor => ({
+    billId: bill.billId,
+    memberId: sponsor.member?.memberId ?? null,
+    organisationName: sponsor.member ? null : sponsor.organisation?.name ?? null,
+    sortOrder: sponsor.sortOrder,
+  }));
+  const storedBillSponsors = await tx.billSponsor.findMany({ where: { billId: bill.billId } });
+  const billSponsorKey = (rows: Array<{ memberId: number | null; organisationName: string | null; sortOrder: number }>) =>
+    rows
+      .map(r => `${r.sortOrder}:${r.memberId ?? ''}:${r.organisationName ?? ''}`)
+      .sort()
+      .join('|');
+  if (billSponsorKey(storedBillSponsors) !== billSponsorKey(billSponsors)) {
+    await tx.billSponsor.deleteMany({ where: { billId: bill.billId } });
+    if (billSponsors.length > 0) {
+      await tx.billSponsor.createMany({ data: billSponsors });
+    }
+    if (billChange?.changeType === 'updated') {
+      billChange.fields += ',sponsors';
+    } else if (existingBill) {
+      billChanges.push({ billId: bill.billId, billStageId: null, syncLogId, changeType: 'updated', fields: 'sponsors' });
+    }
+  }
+
+  // Amendments: snapshot the stored rows so changes can be recorded
+  const apiAmendments = stages.flatMap(stage =>
+    (data.amendments.get(stage.id) ?? []).map(amendment => ({ amendment, billStageId: stage.id }))
+  );
+  const existingAmendments = new Map(
+    (await tx.amendment.findMany({
+      where: { id: { in: apiAmendments.map(a => a.amendment.amendmentId) } },
+      include: { sponsors: { select: { memberId: true, sortOrder: true } } },
+    })).map(a => [a.id, a])
+  );
+
+  const newAmendments: Prisma.AmendmentCreateManyInput[] = [];
+  // New and changed amendments, whose search vectors need refreshing
+  const writtenAmendmentIds: number[] = [];
+  const sponsorsChangedIds: number[] = [];
+  const newSponsorships: Prisma.AmendmentSponsorCreateManyInput[] = [];
+  for (const { amendment, billStageId } of apiAmendments) {
+    const fields = amendmentFields(amendment, billStageId);
+    const existing = existingAmendments.get(amendment.amendmentId) ?? null;
+    const changes = diffAmendment(
+      syncLogId,
+      bill.billId,
+      amendment.amendmentId,
+      existing && { ...existing, sponsorIds: existing.sponsors.map(s => s.memberId) },
+      fields,
+      amendment.sponsors.map(s => s.memberId)
+    );
+    amendmentChanges.push(...changes);
+
+    if (!existing) {
+      newAmendments.push({ id: amendment.amendmentId, ...fields });
+      writtenAmendmentIds.push(amendment.amendmentId);
+    } else if (changes.some(c => c.changeType === 'updated')) {
+      await tx.amendment.update({ where: { id: amendment.amendmentId }, data: fields });
+      writtenAmendmentIds.push(amendment.amendmentId);
+    }
+
+    // Rewrite the sponsor list only when it (or its order) changed
+    if (!existing || sponsorKey(existing.sponsors) !== sponsorKey(amendment.sponsors)) {
+      if (existing) sponsorsChangedIds.push(amendment.amendmentId);
+      for (const sponsor of amendment.sponsors) {
+        newSponsorships.push({
+          amendmentId: amendment.amendmentId,
+          memberId: sponsor.memberId,
+          isLead: sponsor.sortOrder === 0,
+          sortOrder: sponsor.sortOrder,
+        });
+      }
+    }
+    counts.amendmentsProcessed++;
+  }
+
+  if (newAmendments.length > 0) {
+    await tx.amendment.createMany({ data: newAmendments });
+  }
+  if (sponsorsChangedIds.length > 0) {
+    await tx.amendmentSponsor.deleteMany({ where: { amendmentId: { in: sponsorsChangedIds } } });
+  }
+  if (newSponsorships.length > 0) {
+    await tx.amendmentSponsor.createMany({ data: newSponsorships, skipDuplicates: true });
+  }
+
+  // Remove stale amendments no longer in the API for their stage. This runs
+  // after the writes above so amendments that moved stage aren't removed.
+  const apiAmendmentIds = new Set(apiAmendments.map(a => a.amendment.amendmentId));
+  const staleAmendments = (await tx.amendment.findMany({
+    where: { billStageId: { in: stages.map(s => s.id) } },
+    select: { id: true, billStageId: true },
+  })).filter(a => !apiAmendmentIds.has(a.id));
+
+  if (staleAmendments.length > 0) {
+    const staleIds = staleAmendments.map(a => a.id);
+    await tx.amendmentSponsor.deleteMany({ where: { amendmentId: { in: staleIds } } });
+    await tx.amendment.deleteMany({ where: { id: { in: staleIds } } });
+
+    for (const stage of stages) {
+      const stageStaleIds = staleAmendments.filter(a => a.billStageId === stage.id).map(a => a.id);
+      if (stageStaleIds.length > 0) {
+        console.log(`      Removing ${stageStaleIds.length} stale amendment(s) from stage "${stage.description}" (IDs: ${stageStaleIds.join(', ')})`);
+        await recordAmendmentRemovals(tx, syncLogId, bill.billId, stage.id, stageStaleIds);
+      }
+    }
+    counts.amendmentsRemoved += staleIds.length;
+  }
+
+  // Remove stages and sittings no longer in the API. An empty stage list is
+  // more likely a bad response than a bill with no stages, so it removes nothing.
+  if (stages.length > 0) {
+    const removed = await removeStaleStages(tx, bill.billId, stages, sittings.map(s => s.id), syncLogId);
+    billChanges.push(...removed.changes);
+    counts.stagesRemoved += removed.stages;
+    counts.sittingsRemoved += removed.sittings;
+    counts.amendmentsRemoved += removed.amendments;
+  }
+
+  await writePingPong(tx, data);
+
+  await updateSearchVectors(tx, writtenAmendmentIds);
+
+  if (billChanges.length > 0) {
+    await tx.billChange.createMany({ data: billChanges });
+  }
+  if (amendmentChanges.length > 0) {
+    await tx.amendmentChange.createMany({ data: amendmentChanges });
+  }
+  counts.billChanges = billChanges.length;
+  counts.amendmentChanges = amendmentChanges.length;
+
+  return counts;
+}
@@ -2,7 +2,9 @@
  * Cron entry point for Railway scheduled jobs
  * Runs an incremental sync and exits when complete
  */
-import { runIncrementalSync } from './incremental-sync';
+import { runSync } from './engine';
+import { currentSessionActive } from './selectors';
+import { SyncLockError } from './lock';
 
 async function main() {
   console.log('='.repeat(60));
@@ -13,7 +15,7 @@ async function main() {
   console.log('');
 
   try {
-    const stats = await runIncrementalSync();
+    const stats = await runSync(currentSessionActive());
     console.log('');
     console.log('='.repeat(60));
     console.log('Sync Summary');
@@ -22,6 +24,11 @@ async function main() {
     console.log(`Completed at: ${new Date().toISOString()}`);
     process.exit(0);
   } catch (error) {
+    // Another sync holds a live lease; skip this run rather than fail the job
+    if (error instanceof SyncLockError) {
+      console.log(`Skipping: sync ${error.runningSyncId} is already running`);
+      process.exit(0);
+    }
     console.error('Cron sync failed:', error);
     process.exit(1);
   }
@@ -0,0 +1,374 @@
+import { prisma } from '../services/db';
+import { parliamentApi } from '../parliament-api';
+import { fetchBillData, writeBill } from './bill-writer';
+import { syncBillTypes } from './bill-types';
+import { syncStageTypes } from './stage-types';
+import { reportProgress, throwIfCancelled, SyncCancelledError } from './progress';
+import { acquireSyncLock, startHeartbeat } from './lock';
+import { selectorForRun, type BillSelector } from './selectors';
+import type { ParliamentBill } from '@bill-data-app/shared';
+
+export interface SyncStats {
+  sessionsProcessed: number;
+  billsProcessed: number;
+  // Bills left out for being withdrawn, defeated or Acts
+  billsSkipped: number;
+  // Bills left out because they haven't changed
+  billsUnchanged: number;
+  // Bills already checkpointed by the run being resumed
+  billsResumed: number;
+  // Current-session runs only: 'changed' refreshes changed bills only; 'sweep' and 'forced' refresh every active bill
+  refreshMode?: 'changed' | 'sweep' | 'forced';
+  stagesProcessed: number;
+  // Stages and sittings no longer in the API, deleted with their dependent rows
+  stagesRemoved: number;
+  sittingsRemoved: number;
+  amendmentsProcessed: number;
+  amendmentsRemoved: number;
+  amendmentChanges: number;
+  billChanges: number;
+  membersProcessed: number;
+  apiRequests: number;
+  paginationIssues: string[];
+  errors: string[];
+}
+
+// Delay between processing bills to avoid overwhelming the API
+const BILL_DELAY_MS = 100;
+
+// A bill's writes share one transaction; bills with thousands of amendments need longer than Prisma's 5s default
+const BILL_TRANSACTION_TIMEOUT_MS = 120_000;
+
+async function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function emptyStats(): SyncStats {
+  return {
+    sessionsProcessed: 0,
+    billsProcessed: 0,
+    billsSkipped: 0,
+    billsUnchanged: 0,
+    billsResumed: 0,
+    stagesProcessed: 0,
+    stagesRemoved: 0,
+    sittingsRemoved: 0,
+    amendmentsProcessed: 0,
+    amendmentsRemoved: 0,
+    amendmentChanges: 0,
+    billChanges: 0,
+    membersProcessed: 0,
+    apiRequests: 0,
+    paginationIssues: [],
+    errors: [],
+  };
+}
+
+/**
+ * Sync the bills chosen by `selector`: each bill's stages, sittings and
+ * amendments, then the details of every sponsoring member. The run takes the
+ * sync lock, records a SyncLog row, and checkpoints each bill so it can be
+ * resumed with resumeSync if interrupted.
+ */
+export async function runSync(selector: BillSelector): Promise<SyncStats> {
+  // Discard pagination issues and request counts left over from an earlier run in this process
+  parliamentApi.drainPaginationIssues();
+  parliamentApi.drainRequestCount();
+
+  console.log(`Starting ${selector.describe()}...`);
+
+  const syncLog = await acquireSyncLock(prisma, tx => tx.syncLog.create({
+    data: {
+      type: selector.type,
+      status: 'running',
+      options: JSON.stringify(selector.options),
+      heartbeatAt: new Date(),
+    },
+  }));
+
+  return execute(syncLog.id, selector, emptyStats(), new Set(), new Set());
+}
+
+/**
+ * Continue an interrupted run with the same bill selection, skipping bills it
+ * checkpointed. Counts so far are carried over; failed bills are retried.
+ */
+export async function resumeSync(syncLogId: number): Promise<SyncStats> {
+  parliamentApi.drainPaginationIssues();
+  parliamentApi.drainRequestCount();
+
+  const previous = await prisma.syncLog.findUnique({
+    where: { id: syncLogId },
+    include: { checkpoints: { select: { sessionId: true, billId: true } } },
+  });
+  if (!previous) {
+    throw new Error(`Sync ${syncLogId} not found`);
+  }
+  if (previous.status === 'completed') {
+    throw new Error(`Sync ${previous.id} already completed`);
+  }
+  const selector = selectorForRun(previous.type, previous.options);
+  console.log(`Resuming ${selector.describe()} ${previous.id} (${previous.checkpoints.length} bills already done)...`);
+
+  // Keep the counts from the interrupted run. Errors are dropped since failed
+  // bills are retried, and billsResumed is recounted. The selector runs again
+  // from the start, so the counts it makes are dropped too; its refreshMode is
+  // kept so the resumed run refreshes the same bills.
+  const stats = emptyStats();
+  if (previous.stats) {
+    const {
+      errors, paginationIssues, billsResumed, sessionsProcessed, billsSkipped, billsUnchanged, ...counts
+    } = JSON.parse(previous.stats) as Partial<SyncStats>;
+    Object.assign(stats, counts);
+  }
+
+  // Checkpointed bills, keyed "sessionId:billId"
+  const completedBills = new Set(previous.checkpoints.map(c => `${c.sessionId}:${c.billId}`));
+
+  // Members sponsoring amendments on finished bills still need their details fetched
+  const memberIdsToFetch = new Set<number>();
+  const sponsors = await prisma.amendmentSponsor.findMany({
+    where: { amendment: { billStage: { billId: { in: previous.checkpoints.map(c => c.billId) } } } },
+    select: { memberId: true },
+    distinct: ['memberId'],
+  });
+  for (const sponsor of sponsors) {
+    memberIdsToFetch.add(sponsor.memberId);
+  }
+
+  // A run still marked running is only resumed once its lease has expired
+  await acquireSyncLock(prisma, tx => tx.syncLog.update({
+    where: { id: previous.id },
+    data: { status: 'running', completedAt: null, error: null, cancelRequestedAt: null, heartbeatAt: new Date() },
+  }));
+
+  return execute(previous.id, selector, stats, completedBills, memberIdsToFetch);
+}
+
+async function execute(
+  syncLogId: number,
+  selector: BillSelector,
+  stats: SyncStats,
+  completedBills: Set<string>,
+  memberIdsToFetch: Set<number>
+): Promise<SyncStats> {
+  const stopHeartbeat = startHeartbeat(prisma, syncLogId);
+
+  try {
+    await reportProgress(prisma, syncLogId, { phase: 'sessions', current: 0, total: 0 });
+
+    // Bills reference their type, so types are stored first
+    const billTypes = await syncBillTypes(prisma);
+    console.log(`Found ${billTypes} bill types`);
+    const stageTypes = await syncStageTypes(prisma);
+    console.log(`Found ${stageTypes} stage types`);
+
+    const isCheckpointed = (sessionId: number, billId: number) => completedBills.has(`${sessionId}:${billId}`);
+    for await (const batch of selector.select({ prisma, stats, isCheckpointed })) {
+      for (const [index, bill] of batch.bills.entries()) {
+        if (isCheckpointed(batch.sessionId, bill.billId)) {
+          stats.billsResumed++;
+          continue;
+        }
+
+        await throwIfCancelled(prisma, syncLogId);
+        await reportProgress(prisma, syncLogId, {
+          phase: 'bills',
+          sessionId: batch.sessionId,
+          sessionName: batch.sessionName,
+          billId: bill.billId,
+          billTitle: bill.shortTitle,
+          current: index + 1,
+          total: batch.bills.length,
+        });
+
+        try {
+          await processBill(bill, batch.sessionId, syncLogId, memberIdsToFetch, stats);
+
+          // Checkpoint the bill, with stats so far, so a resumed run can skip it
+          stats.apiRequests += parliamentApi.drainRequestCount();
+          await prisma.$transaction([
+            prisma.syncCheckpoint.create({
+              data: { syncLogId, sessionId: batch.sessionId, billId: bill.billId },
+            }),
+            prisma.syncLog.update({
+              where: { id: syncLogId },
+              data: { stats: JSON.stringify(stats) },
+            }),
+          ]);
+          await sleep(BILL_DELAY_MS);
+        } catch (error) {
+          const errorMsg = `Failed to process bill ${bill.billId}: ${error}`;
+          console.error(errorMsg);
+          stats.errors.push(errorMsg);
+        }
+      }
+    }
+
+    console.log(`\nFetching details for ${memberIdsToFetch.size} members...`);
+    await fetchMemberDetails(memberIdsToFetch, syncLogId, stats);
+
+    stats.paginationIssues.push(...parliamentApi.drainPaginationIssues());
+    stats.apiRequests += parliamentApi.drainRequestCount();
+
+    // Mark sync as completed
+    await prisma.syncLog.update({
+      where: { id: syncLogId },
+      data: {
+        status: 'completed',
+        completedAt: new Date(),
+        stats: JSON.stringify(stats),
+        refreshMode: stats.refreshMode ?? null,
+        progress: null,
+      },
+    });
+
+    console.log('\nSync completed!');
+    console.log(`Sessions: ${stats.sessionsProcessed}`);
+    console.log(`Bills processed: ${stats.billsProcessed}`);
+    console.log(`Bills unchanged (not re-fetched): ${stats.billsUnchanged}`);
+    console.log(`Bills skipped (inactive): ${stats.billsSkipped}`);
+    if (stats.billsResumed > 0) {
+      console.log(`Bills already done before resume: ${stats.billsResumed}`);
+    }
+    console.log(`Stages: ${stats.stagesProcessed}`);
+    console.log(`Stages removed: ${stats.stagesRemoved}`);
+    console.log(`Sittings removed: ${stats.sittingsRemoved}`);
+    console.log(`Amendments: ${stats.amendmentsProcessed}`);
+    console.log(`Amendments removed: ${stats.amendmentsRemoved}`);
+    console.log(`Amendment changes recorded: ${stats.amendmentChanges}`);
+    console.log(`Bill/stage changes recorded: ${stats.billChanges}`);
+    console.log(`Members: ${stats.membersProcessed}`);
+    console.log(`API requests: ${stats.apiRequests}`);
+    if (stats.paginationIssues.length > 0) {
+      console.log(`Pagination issues: ${stats.paginationIssues.length}`);
+    }
+    if (stats.errors.length > 0) {
+      console.log(`Errors: ${stats.errors.length}`);
+    }
+
+    return stats;
+  } catch (error) {
+    stats.paginationIssues.push(...parliamentApi.drainPaginationIssues());
+    stats.apiRequests += parliamentApi.drainRequestCount();
+
+    // A requested cancel stops the run cleanly rather than failing it
+    if (error instanceof SyncCancelledError) {
+      console.log(`\nSync ${syncLogId} cancelled`);
+      // A run force-released by /sync/release is already failed; keep its status and reason
+      const { count } = await prisma.syncLog.updateMany({
+        where: { id: syncLogId, status: 'running' },
+        data: {
+          status: 'cancelled',
+          completedAt: new Date(),
+          stats: JSON.stringify(stats),
+          progress: null,
+        },
+      });
+      if (count === 0) {
+        await prisma.syncLog.update({ where: { id: syncLogId }, data: { stats: JSON.stringify(stats) } });
+      }
+      return stats;
+    }
+
+    // Mark sync as failed
+    await prisma.syncLog.update({
+      where: { id: syncLogId },
+      data: {
+        status: 'failed',
+        completedAt: new Date(),
+        error: String(error),
+        stats: JSON.stringify(stats),
+        progress: null,
+      },
+    });
+    throw error;
+  } finally {
+    stopHeartbeat();
+  }
+}
+
+/**
+ * Fetch a bill's stages and amendments, then write them in one transaction.
+ * Stats are only counted once the transaction commits.
+ */
+async function processBill(
+  bill: ParliamentBill,
+  sessionId: number,
+  syncLogId: number,
+  memberIdsToFetch: Set<number>,
+  stats: SyncStats
+): Promise<void> {
+  console.log(`  Processing bill: ${bill.shortTitle} (ID: ${bill.billId})`);
+
+  const data = await fetchBillData(bill);
+  const counts = await prisma.$transaction(
+    tx => writeBill(tx, data, sessionId, syncLogId),
+    { timeout: BILL_TRANSACTION_TIMEOUT_MS }
+  );
+
+  stats.billsProcessed++;
+  stats.stagesProcessed += counts.stagesProcessed;
+  stats.stagesRemoved += counts.stagesRemoved;
+  stats.sittingsRemoved += counts.sittingsRemoved;
+  stats.amendmentsProcessed += counts.amendmentsProcessed;
+  stats.amendmentsRemoved += counts.amendmentsRemoved;
+  stats.amendmentChanges += counts.amendmentChanges;
+  stats.billChanges += counts.billChanges;
+
+  for (const sponsor of data.sponsors) {
+    if (sponsor.member) memberIdsToFetch.add(sponsor.member.memberId);
+  }
+  for (const amendments of data.amendments.values()) {
+    for (const amendment of amendments) {
+      for (const sponsor of amendment.sponsors) {
+        memberIdsToFetch.add(sponsor.memberId);
+      }
+    }
+  }
+}
+
+async function fetchMemberDetails(
+  memberIds: Set<number>,
+  syncLogId: number,
+  stats: SyncStats
+): Promise<void> {
+  const ids = Array.from(memberIds);
+  let processed = 0;
+
+  for (const memberId of ids) {
+    if (processed % 25 === 0) {
+      await throwIfCancelled(prisma, syncLogId);
+      await reportProgress(prisma, syncLogId, { phase: 'members', current: processed, total: ids.length });
+    }
+
+    try {
+      const memberData = await parliamentApi.getMember(memberId);
+
+      if (memberData?.value) {
+        const member = memberData.value;
+        await prisma.member.update({
+          where: { id: memberId },
+          data: {
+            name: member.nameListAs,
+            displayName: member.nameDisplayAs,
+            party: member.latestParty?.name || 'Unknown',
+            partyColour: member.latestParty?.backgroundColour || null,
+            house: member.latestHouseMembership?.house === 1 ? 'Commons' : 'Lords',
+            memberFrom: member.latestHouseMembership?.membershipFrom || '',
+            thumbnailUrl: member.thumbnailUrl || null,
+          },
+        });
+        stats.membersProcessed++;
+      }
+    } catch (error) {
+      console.warn(`  Failed to fetch member ${memberId}:`, error);
+    } finally {
+      // Failed members count towards progress too, so it still reaches the total
+      processed++;
+      if (processed % 50 === 0) {
+        console.log(`  Processed ${processed}/${ids.length} members`);
+      }
+    }
+  }
+}
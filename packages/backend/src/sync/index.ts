@@ -1,2 +1,4 @@
-export { runFullSync } from './full-sync';
-export { runIncrementalSync } from './incremental-sync';
+export { runSync, resumeSync, type SyncStats } from './engine';
+export { allSessions, currentSessionActive, updatedSince, billIds, type BillSelector } from './selectors';
+export { describeProgress, type SyncProgress } from './progress';
+export { findRunningSync, findLiveSync, releaseSyncLock, SyncLockError } from './lock';
@@ -0,0 +1,132 @@
+import type { PrismaClient, Prisma, SyncLog } from '@prisma/client';
+
+// A running sync renews its heartbeat every third of the lease. If the
+// heartbeat is older than the lease, the process is assumed to have died.
+const LEASE_SECONDS = parseInt(process.env.SYNC_LEASE_SECONDS || '') || 300;
+const HEARTBEAT_MS = (LEASE_SECONDS * 1000) / 3;
+
+// Arbitrary key for the Postgres advisory lock that serialises lock acquisition
+const ADVISORY_LOCK_KEY = 724_001;
+
+// Thrown when another sync holds a live lease
+export class SyncLockError extends Error {
+  constructor(public readonly runningSyncId: number) {
+    super(`Sync ${runningSyncId} is already running`);
+    this.name = 'SyncLockError';
+  }
+}
+
+// Heartbeats older than this belong to a sync whose lease has expired
+function leaseCutoff(): Date {
+  return new Date(Date.now() - LEASE_SECONDS * 1000);
+}
+
+/**
+ * Mark running syncs whose heartbeat has expired as failed, freeing the lock.
+ * Syncs from before heartbeats existed are judged by their start time.
+ * Returns the IDs expired.
+ */
+export async function expireStaleSyncs(client: PrismaClient | Prisma.TransactionClient): Promise<number[]> {
+  const cutoff = leaseCutoff();
+  const stale = await client.syncLog.findMany({
+    where: {
+      status: 'running',
+      OR: [
+        { heartbeatAt: { lt: cutoff } },
+        { heartbeatAt: null, startedAt: { lt: cutoff } },
+      ],
+    },
+    select: { id: true, heartbeatAt: true, startedAt: true },
+  });
+
+  for (const sync of stale) {
+    const lastSeen = sync.heartbeatAt ?? sync.startedAt;
+    console.warn(`Expiring sync ${sync.id}: no heartbeat since ${lastSeen.toISOString()}`);
+    await client.syncLog.update({
+      where: { id: sync.id },
+      data: {
+        status: 'failed',
+        completedAt: new Date(),
+        error: `Lease expired: no heartbeat since ${lastSeen.toISOString()}`,
+        progress: null,
+      },
+    });
+  }
+  return stale.map(s => s.id);
+}
+
+// The sync holding the lock, after expiring stale ones
+export async function findRunningSync(client: PrismaClient | Prisma.TransactionClient): Promise<SyncLog | null> {
+  await expireStaleSyncs(client);
+  return client.syncLog.findFirst({ where: { status: 'running' } });
+}
+
+/**
+ * The running sync whose lease is still live, without writing anything. For
+ * status reads: a sync whose lease has lapsed is left for the next
+ * findRunningSync or acquireSyncLock to expire.
+ */
+export async function findLiveSync(client: PrismaClient | Prisma.TransactionClient): Promise<SyncLog | null> {
+  const cutoff = leaseCutoff();
+  return client.syncLog.findFirst({
+    where: {
+      status: 'running',
+      OR: [
+        { heartbeatAt: { gte: cutoff } },
+        { heartbeatAt: null, startedAt: { gte: cutoff } },
+      ],
+    },
+  });
+}
+
+/**
+ * Take the sync lock. Stale runs are expired first; if another run still
+ * holds a live lease, SyncLockError is thrown. Otherwise `start` creates (or
+ * reopens) the SyncLog row, which must have status 'running' and a fresh
+ * heartbeat. Acquisition is serialised with a Postgres advisory lock so two
+ * processes can't both start.
+ */
+export async function acquireSyncLock(
+  prisma: PrismaClient,
+  start: (tx: Prisma.TransactionClient) => Promise<SyncLog>
+): Promise<SyncLog> {
+  return prisma.$transaction(async tx => {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(${ADVISORY_LOCK_KEY})`;
+    const running = await findRunningSync(tx);
+    if (running) {
+      throw new SyncLockError(running.id);
+    }
+    return start(tx);
+  });
+}
+
+// Renew the lease until the returned stop function is called
+export function startHeartbeat(prisma: PrismaClient, syncLogId: number): () => void {
+  const timer = setInterval(() => {
+    prisma.syncLog
+      .updateMany({
+        where: { id: syncLogId, status: 'running' },
+        data: { heartbeatAt: new Date() },
+      })
+      .catch(error => console.warn(`Failed to renew heartbeat for sync ${syncLogId}:`, error));
+  }, HEARTBEAT_MS);
+  timer.unref();
+  return () => clearInterval(timer);
+}
+
+/**
+ * Force-release the lock held by a running sync: mark it failed and ask it
+ * to stop in case its process is in fact still alive.
+ */
+export async function releaseSyncLock(prisma: PrismaClient, syncLogId: number): Promise<void> {
+  await prisma.syncLog.update({
+    where: { id: syncLogId },
+    data: {
+      status: 'failed',
+      completedAt: new Date(),
+      error: 'Lock force-released by an administrator',
+      cancelRequestedAt: new Date(),
+      progress: null,
+    },
+  });
+}
@@ -0,0 +1,71 @@
+import type { PrismaClient } from '@prisma/client';
+import { parliamentApi } from '../parliament-api';
+
+// Progress snapshot stored on the running SyncLog row
+export interface SyncProgress {
+  phase: 'sessions' | 'bills' | 'members';
+  sessionId?: number;
+  sessionName?: string;
+  billId?: number;
+  billTitle?: string;
+  // Position within the current phase (bill i of N, member i of N)
+  current: number;
+  total: number;
+  // Parliament API request queue depth in the syncing process
+  queue: { size: number; pending: number };
+  updatedAt: string;
+}
+
+// Thrown inside a sync when a cancel has been requested; the sync marks itself cancelled
+export class SyncCancelledError extends Error {
+  constructor(syncLogId: number) {
+    super(`Sync ${syncLogId} cancelled`);
+    this.name = 'SyncCancelledError';
+  }
+}
+
+/**
+ * Store the current progress of a sync. Progress lives in the database
+ * rather than in memory so it is visible whichever process runs the sync.
+ */
+export async function reportProgress(
+  prisma: PrismaClient,
+  syncLogId: number,
+  progress: Omit<SyncProgress, 'queue' | 'updatedAt'>
+): Promise<void> {
+  const snapshot: SyncProgress = {
+    ...progress,
+    queue: parliamentApi.getQueueStats(),
+    updatedAt: new Date().toISOString(),
+  };
+  await prisma.syncLog.update({
+    where: { id: syncLogId },
+    data: { progress: JSON.stringify(snapshot) },
+  });
+}
+
+// Stop the sync between units of work if POST /sync/cancel has flagged it
+export async function throwIfCancelled(prisma: PrismaClient, syncLogId: number): Promise<void> {
+  const syncLog = await prisma.syncLog.findUnique({
+    where: { id: syncLogId },
+    select: { cancelRequestedAt: true },
+  });
+  if (syncLog?.cancelRequestedAt) {
+    throw new SyncCancelledError(syncLogId);
+  }
+}
+
+// One-line summary of progress for status displays
+export function describeProgress(progress: SyncProgress): string {
+  switch (progress.phase) {
+    case 'sessions':
+      return 'Discovering sessions';
+    case 'bills': {
+      const session = progress.sessionName ? `Session ${progress.sessionName}: ` : '';
+      const bill = progress.billTitle ? ` (${progress.billTitle})` : '';
+      return `${session}bill ${progress.current} of ${progress.total}${bill}`;
+    }
+    case 'members':
+      return `Fetching member details: ${progress.current} of ${progress.total}`;
+  }
+}
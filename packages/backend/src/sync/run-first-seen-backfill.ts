@@ -0,0 +1,36 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+/**
+ * Backfill amendments.firstSeenAt for amendments synced before the column
+ * existed, which all got the time it was added. Each takes its earliest
+ * recorded change or its stage's first sitting, whichever is earlier, so feeds
+ * don't list the whole database as new. Only moves dates earlier, so it is
+ * safe to run again.
+ */
+async function main() {
+  console.log('Backfilling amendment first-seen dates...');
+
+  try {
+    const updated = await prisma.$executeRaw`
+      UPDATE amendments a SET "firstSeenAt" = earliest.seen
+      FROM (
+        SELECT a.id, LEAST(
+          (SELECT MIN(c."changedAt") FROM amendment_changes c WHERE c."amendmentId" = a.id),
+          (SELECT MIN(s.date) FROM bill_stage_sittings s WHERE s."billStageId" = a."billStageId")
+        ) AS seen
+        FROM amendments a
+      ) earliest
+      WHERE earliest.id = a.id AND earliest.seen < a."firstSeenAt"
+    `;
+    console.log(`Updated ${updated} amendment(s)`);
+  } catch (error) {
+    console.error('First-seen backfill failed:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
@@ -1,4 +1,42 @@
-import { runIncrementalSync } from './incremental-sync';
+import { runSync } from './engine';
+import { prisma } from '../services/db';
+import { currentSessionActive, updatedSince, billIds, type BillSelector } from './selectors';
+
+function argValue(flag: string): string | undefined {
+  const index = process.argv.indexOf(flag);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+/**
+ * Choose the bills to sync:
+ * --since <date> syncs bills updated since then, in any status
+ * --bills <id,id,...> syncs the given bills
+ * otherwise active bills in the current session that have changed
+ * (--force re-fetches every active bill, even those whose lastUpdate hasn't changed)
+ */
+function parseSelector(): BillSelector {
+  const since = argValue('--since');
+  if (since !== undefined) {
+    const date = new Date(since);
+    if (isNaN(date.getTime())) {
+      console.error('--since must be a date or ISO timestamp');
+      process.exit(1);
+    }
+    return updatedSince(date);
+  }
+
+  const bills = argValue('--bills');
+  if (bills !== undefined) {
+    const ids = bills.split(',').map(id => parseInt(id));
+    if (ids.length === 0 || ids.some(isNaN)) {
+      console.error('--bills must be a comma-separated list of bill IDs');
+      process.exit(1);
+    }
+    return billIds(ids);
+  }
+
+  return currentSessionActive({ force: process.argv.includes('--force') });
+}
 
 async function main() {
   console.log('='.repeat(60));
@@ -8,7 +46,7 @@ async function main() {
   console.log('');
 
   try {
-    const stats = await runIncrementalSync();
+    const stats = await runSync(parseSelector());
     console.log('');
     console.log('='.repeat(60));
     console.log('Sync Summary');
@@ -17,6 +55,9 @@ async function main() {
   } catch (error) {
     console.error('Sync failed:', error);
     process.exit(1);
+  } finally {
+    // The API server shares this client, so only the command line disconnects it
+    await prisma.$disconnect();
   }
 }
 
@@ -0,0 +1,21 @@
+import { PrismaClient } from '@prisma/client';
+import { updateSearchVectors } from '../services/amendment-search';
+
+const prisma = new PrismaClient();
+
+// Backfill full-text search vectors for amendments synced before search existed
+async function main() {
+  console.log('Building amendment search vectors...');
+
+  try {
+    const updated = await updateSearchVectors(prisma);
+    console.log(`Indexed ${updated} amendment(s)`);
+  } catch (error) {
+    console.error('Search reindex failed:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
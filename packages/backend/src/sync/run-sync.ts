@@ -1,4 +1,30 @@
-import { runFullSync } from './full-sync';
+import { runSync, resumeSync } from './engine';
+import { prisma } from '../services/db';
+import { allSessions } from './selectors';
+
+// Optional: --backfill <n> to sync the latest n sessions
+function parseBackfill(): number | undefined {
+  const index = process.argv.indexOf('--backfill');
+  if (index === -1) return undefined;
+  const value = parseInt(process.argv[index + 1]);
+  if (isNaN(value) || value < 1) {
+    console.error('--backfill must be a positive number of sessions');
+    process.exit(1);
+  }
+  return value;
+}
+
+// Optional: --resume <syncLogId> to continue an interrupted sync with its original bill selection
+function parseResume(): number | undefined {
+  const index = process.argv.indexOf('--resume');
+  if (index === -1) return undefined;
+  const value = parseInt(process.argv[index + 1]);
+  if (isNaN(value)) {
+    console.error('--resume must be the ID of an interrupted sync');
+    process.exit(1);
+  }
+  return value;
+}
 
 async function main() {
   console.log('='.repeat(60));
@@ -8,7 +34,10 @@ async function main() {
   console.log('');
 
   try {
-    const stats = await runFullSync();
+    const resumeId = parseResume();
+    const stats = resumeId !== undefined
+      ? await resumeSync(resumeId)
+      : await runSync(allSessions({ backfill: parseBackfill() }));
     console.log('');
     console.log('='.repeat(60));
     console.log('Sync Summary');
@@ -17,6 +46,9 @@ async function main() {
   } catch (error) {
     console.error('Sync failed:', error);
     process.exit(1);
+  } finally {
+    // The API server shares this client, so only the command line disconnects it
+    await prisma.$disconnect();
   }
 }
 
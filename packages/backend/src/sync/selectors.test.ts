@@ -0,0 +1,246 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { PrismaClient } from '@prisma/client';
+import type { ParliamentBill } from '@bill-data-app/shared';
+import { parliamentApi, type DiscoveredSession } from '../parliament-api';
+import { allSessions, currentSessionActive, updatedSince, billIds, type BillBatch, type BillSelector } from './selectors';
+import type { SyncStats } from './engine';
+
+vi.mock('../parliament-api', () => ({
+  parliamentApi: { getSessions: vi.fn(), getBill: vi.fn() },
+}));
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function bill(billId: number, overrides: Partial<ParliamentBill> = {}): ParliamentBill {
+  return {
+    billId,
+    shortTitle: `Bill ${billId}`,
+    billTypeId: 1,
+    introducedSessionId: 39,
+    includedSessionIds: [39],
+    currentHouse: 'Commons',
+    originatingHouse: 'Commons',
+    lastUpdate: '2024-11-01T12:00:00Z',
+    billWithdrawn: null,
+    isDefeated: false,
+    isAct: false,
+    ...overrides,
+  };
+}
+
+function session(id: number, bills: ParliamentBill[], endDate: string | null = null): DiscoveredSession {
+  return { id, name: `Session ${id}`, startDate: '2024-07-17', endDate, bills };
+}
+
+// The prisma calls selectors make, over stored sessions, bills' lastUpdate and the last full refresh
+function fakePrisma(stored: {
+  sessionIds?: number[];
+  billUpdates?: Record<number, string>;
+  lastRefreshAt?: Date;
+} = {}) {
+  const sessions = new Map<number, { id: number; name: string; endDate: Date | null }>(
+    (stored.sessionIds ?? []).map(id => [id, { id, name: `Stored ${id}`, endDate: null }])
+  );
+  return {
+    session: {
+      findFirst: async () => {
+        const ids = [...sessions.keys()];
+        return ids.length > 0 ? { id: Math.max(...ids) } : null;
+      },
+      findUnique: async ({ where }: { where: { id: number } }) => sessions.get(where.id) ?? null,
+      create: async ({ data }: { data: { id: number; name: string; endDate: Date | null } }) => {
+        sessions.set(data.id, data);
+        return data;
+      },
+      update: async ({ where }: { where: { id: number } }) => sessions.get(where.id),
+      updateMany: async () => ({ count: 0 }),
+    },
+    syncLog: {
+      findFirst: async () => (stored.lastRefreshAt ? { completedAt: stored.lastRefreshAt } : null),
+    },
+    bill: {
+      findMany: async ({ where }: { where: { id: { in: number[] } } }) =>
+        where.id.in
+          .filter(id => stored.billUpdates?.[id])
+          .map(id => ({ id, lastUpdate: new Date(stored.billUpdates![id]) })),
+    },
+  } as unknown as PrismaClient;
+}
+
+function emptyStats(): SyncStats {
+  return {
+    sessionsProcessed: 0,
+    billsProcessed: 0,
+    billsSkipped: 0,
+    billsUnchanged: 0,
+    billsResumed: 0,
+    stagesProcessed: 0,
+    stagesRemoved: 0,
+    sittingsRemoved: 0,
+    amendmentsProcessed: 0,
+    amendmentsRemoved: 0,
+    amendmentChanges: 0,
+    billChanges: 0,
+    membersProcessed: 0,
+    apiRequests: 0,
+    paginationIssues: [],
+    errors: [],
+  };
+}
+
+// Run a selector to completion, returning its batches as session ID and bill IDs
+async function select(
+  selector: BillSelector,
+  prisma: PrismaClient,
+  options: { stats?: SyncStats; checkpointed?: number[] } = {}
+) {
+  const stats = options.stats ?? emptyStats();
+  const batches: BillBatch[] = [];
+  const isCheckpointed = (_sessionId: number, billId: number) => options.checkpointed?.includes(billId) ?? false;
+  for await (const batch of selector.select({ prisma, stats, isCheckpointed })) {
+    batches.push(batch);
+  }
+  return { stats, batches: batches.map(b => [b.sessionId, b.bills.map(x => x.billId)]) };
+}
+
+beforeEach(() => {
+  vi.mocked(parliamentApi.getSessions).mockReset();
+  vi.mocked(parliamentApi.getBill).mockReset();
+});
+
+describe('allSessions', () => {
+  it('yields every bill of each discovered session, whatever its status', async () => {
+    vi.mocked(parliamentApi.getSessions).mockResolvedValue([
+      session(39, [bill(1), bill(2, { isAct: true }), bill(3, { billWithdrawn: '2024-10-01' })]),
+      session(38, [bill(4, { isDefeated: true })], '2024-05-24'),
+    ]);
+
+    const { stats, batches } = await select(allSessions({ backfill: 2 }), fakePrisma());
+
+    expect(parliamentApi.getSessions).toHaveBeenCalledWith({ fromSessionId: undefined, backfill: 2 });
+    expect(batches).toEqual([[39, [1, 2, 3]], [38, [4]]]);
+    expect(stats).toMatchObject({ sessionsProcessed: 2, billsSkipped: 0, billsUnchanged: 0 });
+  });
+
+  it('starts session discovery from the latest stored session', async () => {
+    vi.mocked(parliamentApi.getSessions).mockResolvedValue([session(39, [bill(1)])]);
+
+    await select(allSessions(), fakePrisma({ sessionIds: [37, 38] }));
+
+    expect(parliamentApi.getSessions).toHaveBeenCalledWith(expect.objectContaining({ fromSessionId: 38 }));
+  });
+});
+
+describe('currentSessionActive', () => {
+  const bills = [
+    bill(1),
+    bill(2, { lastUpdate: '2024-11-05T09:00:00Z' }),
+    bill(3, { isAct: true }),
+    bill(4, { billWithdrawn: '2024-10-01' }),
+    bill(5),
+  ];
+  // Bills 1 and 2 are stored; bill 2 has changed since
+  const billUpdates = { 1: '2024-11-01T12:00:00Z', 2: '2024-11-01T12:00:00Z' };
+
+  beforeEach(() => {
+    vi.mocked(parliamentApi.getSessions).mockResolvedValue([
+      session(39, bills),
+      session(38, [bill(6)], '2024-05-24'),
+    ]);
+  });
+
+  it('refreshes changed and new active bills when a sweep is not due', async () => {
+    const prisma = fakePrisma({ billUpdates, lastRefreshAt: new Date(Date.now() - HOUR_MS) });
+
+    const { stats, batches } = await select(currentSessionActive(), prisma);
+
+    expect(batches).toEqual([[39, [2, 5]]]);
+    expect(stats).toMatchObject({ refreshMode: 'changed', sessionsProcessed: 2, billsSkipped: 2, billsUnchanged: 1 });
+  });
+
+  it('refreshes every active bill when the last full refresh is older than the sweep interval', async () => {
+    const prisma = fakePrisma({ billUpdates, lastRefreshAt: new Date(Date.now() - 48 * HOUR_MS) });
+
+    const { stats, batches } = await select(currentSessionActive(), prisma);
+
+    expect(batches).toEqual([[39, [1, 2, 5]]]);
+    expect(stats).toMatchObject({ refreshMode: 'sweep', billsSkipped: 2, billsUnchanged: 0 });
+  });
+
+  it('sweeps when there has never been a full refresh', async () => {
+    const { stats } = await select(currentSessionActive(), fakePrisma({ billUpdates }));
+
+    expect(stats.refreshMode).toBe('sweep');
+  });
+
+  it('refreshes every active bill when forced', async () => {
+    const prisma = fakePrisma({ billUpdates, lastRefreshAt: new Date(Date.now() - HOUR_MS) });
+
+    const { stats, batches } = await select(currentSessionActive({ force: true }), prisma);
+
+    expect(batches).toEqual([[39, [1, 2, 5]]]);
+    expect(stats).toMatchObject({ refreshMode: 'forced', billsUnchanged: 0 });
+  });
+
+  it('keeps the refresh mode of a resumed run and passes its checkpointed bills through', async () => {
+    // The interrupted run wrote bill 2, so it now matches the API; a sweep has since fallen due
+    const prisma = fakePrisma({ billUpdates: { ...billUpdates, 2: '2024-11-05T09:00:00Z' } });
+    const stats = { ...emptyStats(), refreshMode: 'changed' as const };
+
+    const { batches } = await select(currentSessionActive(), prisma, { stats, checkpointed: [2] });
+
+    expect(batches).toEqual([[39, [2, 5]]]);
+    expect(stats).toMatchObject({ refreshMode: 'changed', billsUnchanged: 1 });
+  });
+
+  it('fails when every session has ended', async () => {
+    vi.mocked(parliamentApi.getSessions).mockResolvedValue([session(38, [bill(6)], '2024-05-24')]);
+
+    await expect(select(currentSessionActive({ force: true }), fakePrisma())).rejects.toThrow('No current session');
+  });
+});
+
+describe('updatedSince', () => {
+  it('yields bills updated after the given time in each session', async () => {
+    vi.mocked(parliamentApi.getSessions).mockResolvedValue([
+      session(39, [bill(1, { lastUpdate: '2024-11-02T00:00:00Z' }), bill(2, { isAct: true, lastUpdate: '2024-11-03T00:00:00Z' }), bill(3)]),
+      session(38, [bill(4, { lastUpdate: '2024-05-01T00:00:00Z' })], '2024-05-24'),
+    ]);
+
+    const { stats, batches } = await select(updatedSince(new Date('2024-11-01T12:00:00Z'), { backfill: 2 }), fakePrisma());
+
+    expect(parliamentApi.getSessions).toHaveBeenCalledWith({ fromSessionId: undefined, backfill: 2 });
+    // A bill updated exactly at `since` is not after it
+    expect(batches).toEqual([[39, [1, 2]], [38, []]]);
+    expect(stats).toMatchObject({ sessionsProcessed: 2, billsUnchanged: 2 });
+  });
+});
+
+describe('billIds', () => {
+  it('files each bill under its latest included session', async () => {
+    vi.mocked(parliamentApi.getBill).mockImplementation(async id => ({
+      1: bill(1, { introducedSessionId: 38, includedSessionIds: [38, 39] }),
+      2: bill(2, { introducedSessionId: 38, includedSessionIds: [] }),
+      3: bill(3),
+    })[id]!);
+
+    const { stats, batches } = await select(billIds([1, 2, 3]), fakePrisma({ sessionIds: [38, 39] }));
+
+    expect(batches).toEqual([[39, [1, 3]], [38, [2]]]);
+    expect(stats.errors).toEqual([]);
+  });
+
+  it('records bills that cannot be fetched or whose session is not stored', async () => {
+    vi.mocked(parliamentApi.getBill).mockImplementation(async id => {
+      if (id === 1) throw new Error('HTTP 404');
+      return bill(id, { includedSessionIds: [40] });
+    });
+
+    const { stats, batches } = await select(billIds([1, 2]), fakePrisma({ sessionIds: [39] }));
+
+    expect(batches).toEqual([]);
+    expect(stats.errors).toHaveLength(2);
+    expect(stats.errors[0]).toContain('Failed to fetch bill 1: Error: HTTP 404');
+    expect(stats.errors[1]).toContain('session 40 has not been synced yet');
+  });
+});
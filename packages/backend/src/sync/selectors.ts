@@ -0,0 +1,237 @@
+import type { PrismaClient } from '@prisma/client';
+import type { ParliamentBill } from '@bill-data-app/shared';
+import { parliamentApi } from '../parliament-api';
+import { syncSessions } from './sessions';
+import type { SyncStats } from './engine';
+
+// Current session plus the one before it
+const INCREMENTAL_SESSION_BACKFILL = 2;
+
+// Refresh every active bill, changed or not, when the last full refresh is older than this
+const SWEEP_INTERVAL_HOURS = parseInt(process.env.SYNC_SWEEP_INTERVAL_HOURS || '') || 24;
+
+// Which bills a run covers. Stored in SyncLog.options so an interrupted run can be resumed.
+export type BillSelection =
+  | { selector: 'allSessions'; backfill?: number }
+  | { selector: 'currentSessionActive'; force?: boolean }
+  | { selector: 'updatedSince'; since: string; backfill?: number }
+  | { selector: 'billIds'; billIds: number[] };
+
+// Bills to sync from one session
+export interface BillBatch {
+  sessionId: number;
+  sessionName: string;
+  bills: ParliamentBill[];
+}
+
+export interface SelectorContext {
+  prisma: PrismaClient;
+  stats: SyncStats;
+  // Whether the run being resumed already wrote the bill. Selectors yield such
+  // bills anyway so the engine can count them as resumed.
+  isCheckpointed(sessionId: number, billId: number): boolean;
+}
+
+/**
+ * A strategy for choosing the bills a sync processes. `select` upserts the
+ * sessions it needs and yields bills a session at a time; bills it leaves out
+ * are counted in the stats.
+ */
+export interface BillSelector {
+  // SyncLog type of runs using this selector
+  type: 'full' | 'incremental' | 'updated' | 'bill';
+  options: BillSelection;
+  describe(): string;
+  select(context: SelectorContext): AsyncGenerator<BillBatch>;
+}
+
+/**
+ * Checks if a bill is still active (not withdrawn, defeated, or an act)
+ */
+function isActiveBill(bill: ParliamentBill): boolean {
+  const isWithdrawn = bill.billWithdrawn !== null && bill.billWithdrawn !== undefined;
+  return !isWithdrawn && !bill.isDefeated && !bill.isAct;
+}
+
+// Whether the last full refresh (a full sync, or a sweep or forced refresh of the current session) is older than the sweep interval
+async function isSweepDue(prisma: PrismaClient): Promise<boolean> {
+  const lastRefresh = await prisma.syncLog.findFirst({
+    where: {
+      status: 'completed',
+      OR: [
+        { type: 'full' },
+        { refreshMode: { in: ['sweep', 'forced'] } },
+      ],
+    },
+    orderBy: { completedAt: 'desc' },
+  });
+  if (!lastRefresh?.completedAt) return true;
+  return Date.now() - lastRefresh.completedAt.getTime() > SWEEP_INTERVAL_HOURS * 60 * 60 * 1000;
+}
+
+/**
+ * Every bill in the latest `backfill` sessions, including withdrawn and
+ * defeated bills and Acts.
+ */
+export function allSessions(options: { backfill?: number } = {}): BillSelector {
+  return {
+    type: 'full',
+    options: { selector: 'allSessions', backfill: options.backfill },
+    describe: () => 'full sync',
+    async *select({ prisma, stats }) {
+      const sessions = await syncSessions(prisma, options.backfill);
+      stats.sessionsProcessed += sessions.length;
+      console.log(`Processing ${sessions.length} sessions`);
+
+      for (const session of sessions) {
+        console.log(`\nFound ${session.bills.length} bills in session ${session.name} (ID: ${session.id})`);
+        yield { sessionId: session.id, sessionName: session.name, bills: session.bills };
+      }
+    },
+  };
+}
+
+/**
+ * Active bills in the current session, including carry-over bills. Bills whose
+ * lastUpdate matches the stored bill are skipped, unless forced or a periodic
+ * sweep is due.
+ */
+export function currentSessionActive(options: { force?: boolean } = {}): BillSelector {
+  return {
+    type: 'incremental',
+    options: { selector: 'currentSessionActive', force: options.force },
+    describe: () => 'incremental sync (current session, active bills only)',
+    async *select({ prisma, stats, isCheckpointed }) {
+      // A resumed run keeps the mode it started with
+      stats.refreshMode ??= options.force ? 'forced' : (await isSweepDue(prisma)) ? 'sweep' : 'changed';
+      const refreshAll = stats.refreshMode !== 'changed';
+      if (refreshAll) {
+        console.log(`Refreshing every active bill (${stats.refreshMode})`);
+      }
+
+      // The previous session is included so its end date is recorded once a new session starts
+      const sessions = await syncSessions(prisma, INCREMENTAL_SESSION_BACKFILL);
+      stats.sessionsProcessed += sessions.length;
+
+      const currentSession = sessions.find(s => s.isCurrent);
+      if (!currentSession) {
+        throw new Error('No current session found (all sessions have end dates)');
+      }
+
+      console.log(`\nProcessing current session: ${currentSession.name} (ID: ${currentSession.id})`);
+
+      const bills = currentSession.bills;
+
+      const activeBills = bills.filter(isActiveBill);
+      console.log(`Found ${bills.length} bills, ${activeBills.length} active (skipping ${bills.length - activeBills.length} withdrawn/defeated/acts)`);
+      stats.billsSkipped += bills.length - activeBills.length;
+
+      let selected = activeBills;
+      if (!refreshAll) {
+        // Stored lastUpdate per bill, to skip bills the API reports as unchanged
+        const storedUpdates = new Map(
+          (await prisma.bill.findMany({
+            where: { id: { in: activeBills.map(b => b.billId) } },
+            select: { id: true, lastUpdate: true },
+          })).map(b => [b.id, b.lastUpdate.getTime()])
+        );
+        selected = activeBills.filter(b =>
+          isCheckpointed(currentSession.id, b.billId) || storedUpdates.get(b.billId) !== new Date(b.lastUpdate).getTime()
+        );
+        stats.billsUnchanged += activeBills.length - selected.length;
+      }
+
+      yield { sessionId: currentSession.id, sessionName: currentSession.name, bills: selected };
+    },
+  };
+}
+
+/**
+ * Bills in the latest `backfill` sessions whose lastUpdate in the Bills API is
+ * after `since`, whatever their status.
+ */
+export function updatedSince(since: Date, options: { backfill?: number } = {}): BillSelector {
+  return {
+    type: 'updated',
+    options: { selector: 'updatedSince', since: since.toISOString(), backfill: options.backfill },
+    describe: () => `sync of bills updated since ${since.toISOString()}`,
+    async *select({ prisma, stats }) {
+      const sessions = await syncSessions(prisma, options.backfill);
+      stats.sessionsProcessed += sessions.length;
+
+      for (const session of sessions) {
+        const bills = session.bills;
+        const updated = bills.filter(b => new Date(b.lastUpdate) > since);
+        stats.billsUnchanged += bills.length - updated.length;
+        yield { sessionId: session.id, sessionName: session.name, bills: updated };
+      }
+    },
+  };
+}
+
+/**
+ * Specific bills by ID. Each bill is filed under its latest session, which
+ * must already be stored; bills that can't be fetched or placed are recorded
+ * as errors.
+ */
+export function billIds(ids: number[]): BillSelector {
+  return {
+    type: 'bill',
+    options: { selector: 'billIds', billIds: ids },
+    describe: () => `sync of bill${ids.length === 1 ? '' : 's'} ${ids.join(', ')}`,
+    async *select({ prisma, stats }) {
+      const batches = new Map<number, BillBatch>();
+
+      for (const id of ids) {
+        try {
+          const bill = await parliamentApi.getBill(id);
+          const sessionId = bill.includedSessionIds?.length
+            ? Math.max(...bill.includedSessionIds)
+            : bill.introducedSessionId;
+
+          let batch = batches.get(sessionId);
+          if (!batch) {
+            const session = await prisma.session.findUnique({ where: { id: sessionId } });
+            if (!session) {
+              throw new Error(`session ${sessionId} has not been synced yet; run a full or incremental sync first`);
+            }
+            batch = { sessionId, sessionName: session.name, bills: [] };
+            batches.set(sessionId, batch);
+          }
+          batch.bills.push(bill);
+        } catch (error) {
+          const errorMsg = `Failed to fetch bill ${id}: ${error}`;
+          console.error(errorMsg);
+          stats.errors.push(errorMsg);
+        }
+      }
+
+      yield* batches.values();
+    },
+  };
+}
+
+/**
+ * Rebuild the selector of a stored run. Runs from before selectors were
+ * stored are mapped from their sync type.
+ */
+export function selectorForRun(type: string, options: string | null): BillSelector {
+  const stored = options ? JSON.parse(options) : {};
+
+  switch (stored.selector ?? type) {
+    case 'allSessions':
+    case 'full':
+      return allSessions({ backfill: stored.backfill });
+    case 'currentSessionActive':
+    case 'incremental':
+      return currentSessionActive({ force: stored.force });
+    case 'updatedSince':
+      return updatedSince(new Date(stored.since), { backfill: stored.backfill });
+    case 'billIds':
+      return billIds(stored.billIds);
+    case 'bill':
+      return billIds([stored.billId]);
+    default:
+      throw new Error(`Cannot rebuild the bill selection of a ${type} sync`);
+  }
+}
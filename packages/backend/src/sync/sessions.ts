@@ -0,0 +1,76 @@
+import type { PrismaClient } from '@prisma/client';
+import type { ParliamentBill } from '@bill-data-app/shared';
+import { parliamentApi } from '../parliament-api';
+
+// How many sessions a full sync covers, counting back from the latest
+export const SESSION_BACKFILL = parseInt(process.env.SYNC_SESSION_BACKFILL || '') || 3;
+
+// A stored session with the bills the Bills API listed for it during discovery
+export interface SyncedSession {
+  id: number;
+  name: string;
+  isCurrent: boolean;
+  bills: ParliamentBill[];
+}
+
+/**
+ * Discover sessions from the Bills API and store them.
+ * Probing starts from the latest session already stored, so new sessions are
+ * picked up automatically. Any stored session other than the latest one loses
+ * its isCurrent flag, including older sessions outside the backfill window.
+ *
+ * Names and dates derived from the bill listing are estimates, so they are
+ * only written when a session is first stored, or to fill in the end date of
+ * a session that has since closed. Values already stored are kept.
+ */
+export async function syncSessions(
+  prisma: PrismaClient,
+  backfill = SESSION_BACKFILL
+): Promise<SyncedSession[]> {
+  const latestKnown = await prisma.session.findFirst({
+    orderBy: { id: 'desc' },
+    select: { id: true },
+  });
+
+  const sessions = await parliamentApi.getSessions({
+    fromSessionId: latestKnown?.id,
+    backfill,
+  });
+
+  const synced: SyncedSession[] = [];
+  for (const session of sessions) {
+    const isCurrent = session.endDate === null;
+    const stored = await prisma.session.findUnique({ where: { id: session.id } });
+
+    const row = stored
+      ? await prisma.session.update({
+          where: { id: session.id },
+          data: {
+            isCurrent,
+            ...(!stored.endDate && session.endDate && { endDate: new Date(session.endDate) }),
+          },
+        })
+      : await prisma.session.create({
+          data: {
+            id: session.id,
+            name: session.name,
+            startDate: new Date(session.startDate),
+            endDate: session.endDate ? new Date(session.endDate) : null,
+            isCurrent,
+          },
+        });
+
+    synced.push({ id: row.id, name: row.name, isCurrent, bills: session.bills });
+  }
+
+  const currentSession = synced.find(s => s.isCurrent);
+  await prisma.session.updateMany({
+    where: {
+      isCurrent: true,
+      ...(currentSession && { id: { not: currentSession.id } }),
+    },
+    data: { isCurrent: false },
+  });
+
+  return synced;
+}
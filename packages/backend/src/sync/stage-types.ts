@@ -0,0 +1,27 @@
+import type { PrismaClient } from '@prisma/client';
+import { parliamentApi } from '../parliament-api';
+import { stageGroupFor } from '../services/stage-groups';
+
+/**
+ * Fetch stage definitions from the Bills API and upsert them with their
+ * normalised stage group. Returns the number stored.
+ */
+export async function syncStageTypes(prisma: PrismaClient): Promise<number> {
+  const stageTypes = await parliamentApi.getStageTypes();
+
+  for (const stageType of stageTypes) {
+    const fields = {
+      name: stageType.name,
+      house: stageType.house,
+      sortOrder: stageType.sortOrder,
+      stageGroup: stageGroupFor(stageType.name),
+    };
+    await prisma.stageType.upsert({
+      where: { id: stageType.id },
+      update: fields,
+      create: { id: stageType.id, ...fields },
+    });
+  }
+
+  return stageTypes.length;
+}
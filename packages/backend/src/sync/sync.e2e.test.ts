@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import path from 'path';
+import { PrismaClient } from '@prisma/client';
+import { ParliamentApiClient } from '../parliament-api';
+
+// Recorded Bills and Members API responses for sessions 36 and 37: bill 3001
+// in session 37 with two stages, two amendments on its committee stage and two
+// sponsoring members, and bill 3002 carried over from session 36 into 37
+const FIXTURE_DIR = path.resolve(__dirname, '../../fixtures/full-sync');
+
+// The same responses recorded later, after bill 3001 was updated and amendment
+// 5002 dropped from its committee stage
+const UPDATED_FIXTURE_DIR = path.resolve(__dirname, '../../fixtures/full-sync-updated');
+
+// The sync empties this database, so it is never the DATABASE_URL in use
+const TEST_DATABASE_URL = process.env.TEST_DATABASE_URL;
+
+describe('full-sync fixtures', () => {
+  it.each([FIXTURE_DIR, UPDATED_FIXTURE_DIR])('in %s cover the requests a two-session full sync makes', async fixtureDir => {
+    const client = new ParliamentApiClient({ replayDir: fixtureDir });
+
+    const sessions = await client.getSessions({ backfill: 2 });
+    expect(sessions.map(s => s.id)).toEqual([37, 36]);
+    await client.getBillTypes();
+    await client.getStageTypes();
+    // The requests fetchBillData and the member details refresh make for each bill
+    for (const bill of sessions.flatMap(s => s.bills)) {
+      const { sponsors = [] } = await client.getBill(bill.billId);
+      const memberIds = new Set(sponsors.flatMap(s => (s.member ? [s.member.memberId] : [])));
+      for (const stage of await client.getBillStages(bill.billId)) {
+        for (const amendment of await client.getAmendments(bill.billId, stage.id)) {
+          amendment.sponsors.forEach(s => memberIds.add(s.memberId));
+        }
+      }
+      for (const memberId of memberIds) {
+        expect(await client.getMember(memberId)).not.toBeNull();
+      }
+    }
+    expect(client.drainPaginationIssues()).toEqual([]);
+  });
+});
+
+describe.skipIf(!TEST_DATABASE_URL)('runSync against replayed fixtures', () => {
+  type Sync = typeof import('./engine') & typeof import('./selectors');
+
+  let db: PrismaClient;
+  let sync: Sync;
+  // The shared clients of each engine import, disconnected once done
+  const engineClients: PrismaClient[] = [];
+
+  // The engine and API client read these when first imported, so each fixture
+  // set gets fresh imports
+  async function importSync(fixtureDir: string): Promise<Sync> {
+    process.env.DATABASE_URL = TEST_DATABASE_URL;
+    process.env.PARLIAMENT_API_REPLAY_DIR = fixtureDir;
+    vi.resetModules();
+    const [engine, selectors, { prisma }] = await Promise.all([
+      import('./engine'),
+      import('./selectors'),
+      import('../services/db'),
+    ]);
+    engineClients.push(prisma);
+    return { ...engine, ...selectors };
+  }
+
+  beforeAll(async () => {
+    sync = await importSync(FIXTURE_DIR);
+
+    db = new PrismaClient({ datasources: { db: { url: TEST_DATABASE_URL } } });
+    await db.$executeRawUnsafe(`TRUNCATE
+      sync_checkpoints, sync_logs, amendment_changes, bill_changes, amendment_sponsors, amendments,
+      bill_stage_sittings, bill_stages, bill_sponsors, bills, members, stage_types, bill_types, sessions
+      RESTART IDENTITY CASCADE`);
+  });
+
+  afterAll(async () => {
+    await Promise.all([db, ...engineClients].map(client => client?.$disconnect()));
+  });
+
+  it('writes the sessions, bills, stages, amendments and members', async () => {
+    const stats = await sync.runSync(sync.allSessions({ backfill: 2 }));
+
+    // Bill 3002 is listed in both sessions, so it is processed twice
+    expect(stats).toMatchObject({
+      sessionsProcessed: 2,
+      billsProcessed: 3,
+      amendmentsProcessed: 2,
+      membersProcessed: 2,
+      errors: [],
+      paginationIssues: [],
+    });
+
+    const session = await db.session.findUniqueOrThrow({ where: { id: 37 } });
+    expect(session).toMatchObject({ name: '2024-25', isCurrent: true, endDate: null });
+
+    const bill = await db.bill.findUniqueOrThrow({
+      where: { id: 3001 },
+      include: { sponsors: true, stages: { include: { sittings: true }, orderBy: { sortOrder: 'asc' } } },
+    });
+    expect(bill).toMatchObject({ sessionId: 37, billTypeId: 1, shortTitle: 'Fixture Bill', isAct: false });
+    expect(bill.sponsors).toMatchObject([{ memberId: 4001, sortOrder: 1 }]);
+    expect(bill.stages.map(s => [s.id, s.stageTypeId, s.description, s.sittings.length])).toEqual([
+      [101, 6, '2nd reading', 1],
+      [102, 7, 'Committee stage', 1],
+    ]);
+
+    const amendments = await db.amendment.findMany({
+      include: { sponsors: { orderBy: { sortOrder: 'asc' } } },
+      orderBy: { id: 'asc' },
+    });
+    expect(amendments.map(a => ({
+      id: a.id,
+      billStageId: a.billStageId,
+      dNum: a.dNum,
+      decision: a.decision,
+      sponsors: a.sponsors.map(s => [s.memberId, s.isLead]),
+    }))).toEqual([
+      { id: 5001, billStageId: 102, dNum: 'NC1', decision: 'Withdrawn', sponsors: [[4001, true]] },
+      { id: 5002, billStageId: 102, dNum: '1', decision: 'NegativedOnDivision', sponsors: [[4002, true], [4001, false]] },
+    ]);
+
+    // Written amendments are indexed for full-text search in the same transaction
+    const unindexed = await db.$queryRaw<Array<{ count: bigint }>>`
+      SELECT COUNT(*) AS count FROM amendments WHERE "searchVector" IS NULL
+    `;
+    expect(Number(unindexed[0].count)).toBe(0);
+
+    // Member details come from the Members API
+    expect(await db.member.findMany({ select: { id: true, displayName: true, party: true }, orderBy: { id: 'asc' } }))
+      .toEqual([
+        { id: 4001, displayName: 'Jane Smith', party: 'Labour' },
+        { id: 4002, displayName: 'Tom Jones', party: 'Conservative' },
+      ]);
+
+    const log = await db.syncLog.findFirstOrThrow({ orderBy: { id: 'desc' } });
+    expect(log).toMatchObject({ type: 'full', status: 'completed', progress: null });
+    expect(await db.syncCheckpoint.count({ where: { syncLogId: log.id } })).toBe(3);
+  });
+
+  it('links a carried-over bill to its latest session and keeps the one it was introduced in', async () => {
+    const bill = await db.bill.findUniqueOrThrow({
+      where: { id: 3002 },
+      include: { stages: { orderBy: { sortOrder: 'asc' } } },
+    });
+    expect(bill).toMatchObject({ sessionId: 37, introducedSessionId: 36, shortTitle: 'Carried Over Bill' });
+    expect(bill.stages.map(s => s.id)).toEqual([103, 104]);
+
+    // Only the latest session is current; the earlier one has closed
+    const previous = await db.session.findUniqueOrThrow({ where: { id: 36 } });
+    expect(previous.isCurrent).toBe(false);
+    expect(previous.endDate).not.toBeNull();
+  });
+
+  it('records no changes when the same responses are synced again', async () => {
+    const stats = await sync.runSync(sync.allSessions({ backfill: 2 }));
+
+    expect(stats).toMatchObject({ billsProcessed: 3, amendmentChanges: 0, billChanges: 0, errors: [] });
+    expect(await db.amendment.count()).toBe(2);
+    expect(await db.billStageSitting.count()).toBe(4);
+  });
+
+  it('skips bills an incremental sync finds unchanged', async () => {
+    const stats = await sync.runSync(sync.currentSessionActive());
+
+    expect(stats).toMatchObject({ refreshMode: 'changed', billsProcessed: 0, billsUnchanged: 2, errors: [] });
+  });
+
+  it('records no changes when a forced incremental sync refreshes every bill', async () => {
+    const stats = await sync.runSync(sync.currentSessionActive({ force: true }));
+
+    expect(stats).toMatchObject({
+      refreshMode: 'forced',
+      billsProcessed: 2,
+      amendmentChanges: 0,
+      billChanges: 0,
+      amendmentsRemoved: 0,
+      errors: [],
+    });
+    expect(await db.amendment.count()).toBe(2);
+
+    const log = await db.syncLog.findFirstOrThrow({ orderBy: { id: 'desc' } });
+    expect(await db.amendmentChange.count({ where: { syncLogId: log.id } })).toBe(0);
+    expect(await db.billChange.count({ where: { syncLogId: log.id } })).toBe(0);
+  });
+
+  it('removes an amendment dropped from the API and records the removal', async () => {
+    sync = await importSync(UPDATED_FIXTURE_DIR);
+    const stats = await sync.runSync(sync.currentSessionActive());
+
+    // Only bill 3001 has a new lastUpdate
+    expect(stats).toMatchObject({
+      refreshMode: 'changed',
+      billsProcessed: 1,
+      billsUnchanged: 1,
+      amendmentsRemoved: 1,
+      errors: [],
+    });
+
+    expect(await db.amendment.findUnique({ where: { id: 5002 } })).toBeNull();
+    expect(await db.amendmentSponsor.count({ where: { amendmentId: 5002 } })).toBe(0);
+    expect(await db.amendment.findUnique({ where: { id: 5001 } })).not.toBeNull();
+
+    const log = await db.syncLog.findFirstOrThrow({ orderBy: { id: 'desc' } });
+    expect(await db.amendmentChange.findMany({
+      where: { syncLogId: log.id },
+      select: { amendmentId: true, billId: true, billStageId: true, changeType: true },
+    })).toEqual([{ amendmentId: 5002, billId: 3001, billStageId: 102, changeType: 'removed' }]);
+
+    const billChanges = await db.billChange.findMany({ where: { syncLogId: log.id } });
+    expect(billChanges).toMatchObject([{ billId: 3001, billStageId: null, changeType: 'updated' }]);
+    expect(billChanges[0].fields?.split(',')).toContain('lastUpdate');
+  });
+});
@@ -1,20 +1,30 @@
 import { Routes, Route } from 'react-router-dom';
 import { Layout } from './components/layout/Layout';
 import AmendmentsPage from './pages/Amendments';
+import AmendmentDetailPage from './pages/AmendmentDetail';
 import StatisticsPage from './pages/Statistics';
 import BillsPage from './pages/Bills';
+import BillDetailPage from './pages/BillDetail';
 import MemberPage from './pages/Members';
 import StagesOverTimePage from './pages/StagesOverTime';
+import NetworkPage from './pages/Network';
+import PartiesPage from './pages/Parties';
+import SyncRunsPage from './pages/SyncRuns';
 
 function App() {
   return (
     <Layout>
       <Routes>
         <Route path="/" element={<AmendmentsPage />} />
+        <Route path="/amendments/:id" element={<AmendmentDetailPage />} />
         <Route path="/statistics" element={<StatisticsPage />} />
         <Route path="/bills" element={<BillsPage />} />
+        <Route path="/bills/:id" element={<BillDetailPage />} />
         <Route path="/stages" element={<StagesOverTimePage />} />
         <Route path="/members/:id" element={<MemberPage />} />
+        <Route path="/network" element={<NetworkPage />} />
+        <Route path="/parties" element={<PartiesPage />} />
+        <Route path="/admin/sync" element={<SyncRunsPage />} />
       </Routes>
     </Layout>
   );
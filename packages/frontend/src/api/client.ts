@@ -18,6 +18,27 @@ export interface Session {
   billCount: number;
 }
 
+export interface BillType {
+  id: number;
+  name: string;
+  category: string;
+  description: string | null;
+  billCount: number;
+}
+
+export interface BillSponsor {
+  memberId: number | null;
+  organisationName: string | null;
+  sortOrder: number;
+  member: {
+    id: number;
+    displayName: string;
+    party: string;
+    partyColour: string | null;
+    house: string;
+  } | null;
+}
+
 export interface Bill {
   id: number;
   shortTitle: string;
@@ -32,10 +53,102 @@ export interface Bill {
   isDefeated: boolean;
   isAct: boolean;
   lastUpdate: string;
+  billType: { id: number; name: string; category: string } | null;
+  sponsors: BillSponsor[];
   stageCount: number;
   amendmentCount: number;
 }
 
+export interface BillStageDetail {
+  id: number;
+  billId: number;
+  stageTypeId: number;
+  description: string;
+  house: string;
+  sortOrder: number;
+  pingPongRound: number | null;
+  amendmentCount: number;
+  decisionBreakdown: Record<string, number>;
+  sittings: Array<{ id: number; date: string | null }>;
+}
+
+export interface BillDetail extends Omit<Bill, 'sessionName' | 'stageCount' | 'amendmentCount'> {
+  session: Omit<Session, 'billCount'>;
+  introducedSession: { id: number; name: string | null } | null;
+  stages: BillStageDetail[];
+}
+
+export interface PingPongItem {
+  id: number;
+  dNum: string | null;
+  amendmentNumber: string | null;
+  amendmentType: string;
+  decision: string;
+  decisionExplanation: string | null;
+  summaryText: string | null;
+  pingPongRef: string | null;
+  respondsToId: number | null;
+  sponsors: Array<{ id: number; displayName: string; party: string; partyColour: string | null; isLead: boolean }>;
+}
+
+export interface PingPongRound {
+  round: number;
+  billStageId: number;
+  description: string;
+  house: string;
+  sittings: Array<{ id: number; date: string | null }>;
+  items: PingPongItem[];
+}
+
+export interface BillPingPong {
+  billId: number;
+  shortTitle: string;
+  rounds: number;
+  stages: PingPongRound[];
+  threads: Array<{ thread: string; label: string; amendmentIds: number[] }>;
+}
+
+export interface BillPassage {
+  billId: number;
+  shortTitle: string;
+  sessionId: number;
+  originatingHouse: string;
+  billType: { id: number; name: string } | null;
+  isAct: boolean;
+  firstReadingDate: string | null;
+  royalAssentDate: string | null;
+  daysToRoyalAssent: number | null;
+  daysByHouse: Record<string, number>;
+  stages: Array<{
+    billStageId: number;
+    description: string;
+    stageGroup: StageGroup | null;
+    house: string;
+    startDate: string;
+    endDate: string;
+    days: number;
+  }>;
+}
+
+export type PassageMetric = 'royalAssent' | StageGroup;
+
+export type PassageGroupBy = 'none' | 'originatingHouse' | 'billType';
+
+export interface PassageDistribution {
+  sessionId: number;
+  sessionName: string;
+  group: string | null;
+  count: number;
+  min: number;
+  p10: number;
+  p25: number;
+  median: number;
+  p75: number;
+  p90: number;
+  max: number;
+  mean: number;
+}
+
 export interface Member {
   id: number;
   name: string;
@@ -60,6 +173,48 @@ export interface Amendment {
   bill: { id: number; shortTitle: string };
   billStage: { id: number; description: string; house: string };
   sponsors: Member[];
+  // Present only for full-text searches (q)
+  rank?: number;
+  highlights?: AmendmentHighlights | null;
+}
+
+// Matched snippets with search terms wrapped in <mark></mark>
+export interface AmendmentHighlights {
+  summaryText: string | null;
+  marshalledListText: string | null;
+  decisionExplanation: string | null;
+}
+
+export interface AmendmentDetail extends Omit<Amendment, 'bill' | 'billStage'> {
+  marshalledListText: string | null;
+  firstSeenAt: string;
+  bill: {
+    id: number;
+    shortTitle: string;
+    longTitle: string | null;
+    sessionId: number;
+    sessionName: string;
+    originatingHouse: string;
+    currentHouse: string;
+  };
+  billStage: {
+    id: number;
+    description: string;
+    house: string;
+    sortOrder: number;
+    sittings: Array<{ id: number; date: string | null }>;
+  };
+}
+
+export interface AmendmentChange {
+  id: number;
+  changeType: 'created' | 'updated' | 'removed' | 'sponsorAdded' | 'sponsorRemoved';
+  field: string | null;
+  oldValue: string | null;
+  newValue: string | null;
+  changedAt: string;
+  syncLog: { id: number; type: string; startedAt: string };
+  member?: Pick<Member, 'id' | 'displayName' | 'party' | 'partyColour'> | null;
 }
 
 export interface PaginatedResponse<T> {
@@ -74,7 +229,59 @@ export interface StatResult {
   groupLabel: string;
   count: number;
   subGroups?: StatResult[];
-  metadata?: Record<string, string>;
+  metadata?: Record<string, string | number | null>;
+}
+
+export type PartyCountBy = 'amendment' | 'lead';
+
+export type PivotDimension = 'bill' | 'stage' | 'decision' | 'party' | 'member' | 'house' | 'month';
+
+export interface PivotAxisMember {
+  key: string;
+  label: string;
+  count: number;
+  colour?: string | null;
+}
+
+export interface PivotCube {
+  countBy: PartyCountBy;
+  dimensions: PivotDimension[];
+  axes: Array<{ dimension: PivotDimension; members: PivotAxisMember[] }>;
+  // Non-empty cells only, keyed in the order of `dimensions`
+  cells: Array<{ keys: string[]; count: number }>;
+  total: number;
+}
+
+export interface PartySummary {
+  party: string;
+  partyColour: string | null;
+  tabled: number;
+  agreed: number;
+  activeMembers: number;
+}
+
+export interface PartyDetail extends PartySummary {
+  countBy: PartyCountBy;
+  decisionBreakdown: Record<string, number>;
+  topMembers: Array<{ id: number; displayName: string; house: string; tabled: number; agreed: number }>;
+  topBills: Array<{ id: number; shortTitle: string; tabled: number; agreed: number }>;
+}
+
+export type StageGroup =
+  | 'firstReading'
+  | 'secondReading'
+  | 'committee'
+  | 'report'
+  | 'thirdReading'
+  | 'pingPong'
+  | 'royalAssent';
+
+export interface StageType {
+  id: number;
+  name: string;
+  house: string;
+  sortOrder: number;
+  stageGroup: StageGroup | null;
 }
 
 export interface StageWithDate {
@@ -82,16 +289,86 @@ export interface StageWithDate {
   billId: number;
   billTitle: string;
   stageDescription: string;
+  stageTypeId: number;
+  stageGroup: StageGroup | null;
   house: string;
   sittingDate: string | null;
   amendmentCount: number;
 }
 
+export interface NetworkNode {
+  id: number;
+  displayName: string;
+  party: string;
+  partyColour: string | null;
+  house: string;
+  amendmentCount: number;
+  degree: number;
+  weightedDegree: number;
+  degreeCentrality: number;
+  betweenness: number;
+  eigenvector: number;
+}
+
+export interface NetworkEdge {
+  source: number;
+  target: number;
+  weight: number;
+  crossParty: boolean;
+}
+
+export interface CosponsorshipNetwork {
+  filters: { sessionId: number | null; billId: number | null; house: string | null; minWeight: number };
+  nodes: NetworkNode[];
+  edges: NetworkEdge[];
+  summary: {
+    amendmentCount: number;
+    nodeCount: number;
+    edgeCount: number;
+    totalWeight: number;
+    crossPartyEdges: number;
+    crossPartyEdgeShare: number;
+    crossPartyWeightShare: number;
+  };
+}
+
+export interface SyncRun {
+  id: number;
+  type: string;
+  status: string;
+  startedAt: string;
+  completedAt: string | null;
+  durationMs: number | null;
+  error: string | null;
+  options: Record<string, unknown> | null;
+  billsProcessed: number | null;
+  stagesProcessed: number | null;
+  amendmentsProcessed: number | null;
+  amendmentsRemoved: number | null;
+  apiRequests: number | null;
+  errorCount: number;
+}
+
+export interface SyncRunDetail extends SyncRun {
+  stats: Record<string, unknown> | null;
+  errors: string[];
+  progress: Record<string, unknown> | null;
+  cancelRequestedAt: string | null;
+  heartbeatAt: string | null;
+  checkpoints: number;
+  amendmentChanges: number;
+  billChanges: number;
+}
+
 export interface SyncStatus {
   lastFullSync: string | null;
   lastIncrementalSync: string | null;
   isRunning: boolean;
+  syncId: number | null;
+  syncType: string | null;
+  cancelRequested: boolean;
   currentTask: string | null;
+  progress: { current: number; total: number } | null;
   stats: {
     bills: number;
     amendments: number;
@@ -108,56 +385,130 @@ export const api = {
   getBills: (params?: {
     sessionId?: number;
     status?: 'all' | 'active' | 'acts' | 'withdrawn' | 'defeated';
+    billType?: number;
+    sponsorMemberId?: number;
     skip?: number;
     take?: number;
   }) => {
     const query = new URLSearchParams();
     if (params?.sessionId) query.set('sessionId', params.sessionId.toString());
     if (params?.status) query.set('status', params.status);
+    if (params?.billType) query.set('billType', params.billType.toString());
+    if (params?.sponsorMemberId) query.set('sponsorMemberId', params.sponsorMemberId.toString());
     if (params?.skip) query.set('skip', params.skip.toString());
     if (params?.take) query.set('take', params.take.toString());
     return fetchApi<PaginatedResponse<Bill>>(`/bills?${query}`);
   },
 
-  getBill: (id: number) => fetchApi<Bill & { stages: any[] }>(`/bills/${id}`),
+  getBill: (id: number) => fetchApi<BillDetail>(`/bills/${id}`),
+
+  getBillPingPong: (id: number) => fetchApi<BillPingPong>(`/bills/${id}/ping-pong`),
+
+  getBillTypes: () => fetchApi<BillType[]>('/bills/types'),
 
   // Amendments
   getAmendments: (params?: {
+    q?: string;
     memberId?: number;
     billId?: number;
     sessionId?: number;
     decision?: string;
     stage?: string;
+    stageTypeId?: number;
+    stageGroup?: StageGroup;
     house?: string;
     skip?: number;
     take?: number;
   }) => {
     const query = new URLSearchParams();
+    if (params?.q) query.set('q', params.q);
     if (params?.memberId) query.set('memberId', params.memberId.toString());
     if (params?.billId) query.set('billId', params.billId.toString());
     if (params?.sessionId) query.set('sessionId', params.sessionId.toString());
     if (params?.decision) query.set('decision', params.decision);
     if (params?.stage) query.set('stage', params.stage);
+    if (params?.stageTypeId) query.set('stageTypeId', params.stageTypeId.toString());
+    if (params?.stageGroup) query.set('stageGroup', params.stageGroup);
     if (params?.house) query.set('house', params.house);
     if (params?.skip) query.set('skip', params.skip.toString());
     if (params?.take) query.set('take', params.take.toString());
     return fetchApi<PaginatedResponse<Amendment>>(`/amendments?${query}`);
   },
 
+  getAmendment: (id: number) => fetchApi<AmendmentDetail>(`/amendments/${id}`),
+
+  // Feed URL for the same filters as getAmendments (for feed readers)
+  getAmendmentFeedUrl: (params: {
+    q?: string;
+    memberId?: number;
+    billId?: number;
+    sessionId?: number;
+    decision?: string;
+    stage?: string;
+    stageTypeId?: number;
+    stageGroup?: StageGroup;
+    house?: string;
+  }, format: 'atom' | 'rss' = 'atom') => {
+    const query = new URLSearchParams();
+    if (params.q) query.set('q', params.q);
+    if (params.memberId) query.set('memberId', params.memberId.toString());
+    if (params.billId) query.set('billId', params.billId.toString());
+    if (params.sessionId) query.set('sessionId', params.sessionId.toString());
+    if (params.decision) query.set('decision', params.decision);
+    if (params.stage) query.set('stage', params.stage);
+    if (params.stageTypeId) query.set('stageTypeId', params.stageTypeId.toString());
+    if (params.stageGroup) query.set('stageGroup', params.stageGroup);
+    if (params.house) query.set('house', params.house);
+    return `${API_BASE}/feeds/amendments.${format}?${query}`;
+  },
+
+  getAmendmentHistory: (id: number) =>
+    fetchApi<{ amendmentId: number; items: AmendmentChange[] }>(`/amendments/${id}/history`),
+
   getAmendmentStats: (params?: {
-    groupBy: 'bill' | 'stage' | 'member' | 'decision';
+    groupBy: 'bill' | 'stage' | 'stageGroup' | 'member' | 'party' | 'decision';
+    countBy?: PartyCountBy;
     sessionId?: number;
     memberId?: number;
     house?: string;
+    stageTypeId?: number;
+    stageGroup?: StageGroup;
   }) => {
     const query = new URLSearchParams();
     query.set('groupBy', params?.groupBy || 'bill');
+    if (params?.countBy) query.set('countBy', params.countBy);
     if (params?.sessionId) query.set('sessionId', params.sessionId.toString());
     if (params?.memberId) query.set('memberId', params.memberId.toString());
     if (params?.house) query.set('house', params.house);
+    if (params?.stageTypeId) query.set('stageTypeId', params.stageTypeId.toString());
+    if (params?.stageGroup) query.set('stageGroup', params.stageGroup);
     return fetchApi<StatResult[]>(`/amendments/stats?${query}`);
   },
 
+  getAmendmentPivot: (params: {
+    dimensions: PivotDimension[];
+    countBy?: PartyCountBy;
+    limit?: number;
+    sessionId?: number;
+    billId?: number;
+    memberId?: number;
+    decision?: string;
+    house?: string;
+    stageGroup?: StageGroup;
+  }) => {
+    const query = new URLSearchParams();
+    query.set('dimensions', params.dimensions.join(','));
+    if (params.countBy) query.set('countBy', params.countBy);
+    if (params.limit) query.set('limit', params.limit.toString());
+    if (params.sessionId) query.set('sessionId', params.sessionId.toString());
+    if (params.billId) query.set('billId', params.billId.toString());
+    if (params.memberId) query.set('memberId', params.memberId.toString());
+    if (params.decision) query.set('decision', params.decision);
+    if (params.house) query.set('house', params.house);
+    if (params.stageGroup) query.set('stageGroup', params.stageGroup);
+    return fetchApi<PivotCube>(`/amendments/pivot?${query}`);
+  },
+
   // Members
   searchMembers: (q: string, house?: string) => {
     const query = new URLSearchParams({ q });
@@ -171,6 +522,8 @@ export const api = {
   getStagesWithAmendments: (params: {
     sessionId?: number;
     house?: string;
+    stageTypeId?: number;
+    stageGroup?: StageGroup;
     fromDate?: string;
     toDate?: string;
     skip?: number;
@@ -179,6 +532,8 @@ export const api = {
     const query = new URLSearchParams();
     if (params.sessionId) query.set('sessionId', params.sessionId.toString());
     if (params.house) query.set('house', params.house);
+    if (params.stageTypeId) query.set('stageTypeId', params.stageTypeId.toString());
+    if (params.stageGroup) query.set('stageGroup', params.stageGroup);
     if (params.fromDate) query.set('fromDate', params.fromDate);
     if (params.toDate) query.set('toDate', params.toDate);
     if (params.skip) query.set('skip', params.skip.toString());
@@ -186,6 +541,89 @@ export const api = {
     return fetchApi<PaginatedResponse<StageWithDate> & { totalAmendments: number }>(`/stages/with-amendments?${query}`);
   },
 
+  getStageTypes: () => fetchApi<{ groups: StageGroup[]; stageTypes: StageType[] }>('/stages/types'),
+
+  // Network
+  getCosponsorshipNetwork: (params: {
+    sessionId?: number;
+    billId?: number;
+    house?: string;
+    minWeight?: number;
+  }) => {
+    const query = new URLSearchParams();
+    if (params.sessionId) query.set('sessionId', params.sessionId.toString());
+    if (params.billId) query.set('billId', params.billId.toString());
+    if (params.house) query.set('house', params.house);
+    if (params.minWeight) query.set('minWeight', params.minWeight.toString());
+    return fetchApi<CosponsorshipNetwork>(`/network/cosponsorship?${query}`);
+  },
+
+  // Parties
+  getParties: (params?: { sessionId?: number; house?: string; countBy?: PartyCountBy }) => {
+    const query = new URLSearchParams();
+    if (params?.sessionId) query.set('sessionId', params.sessionId.toString());
+    if (params?.house) query.set('house', params.house);
+    if (params?.countBy) query.set('countBy', params.countBy);
+    return fetchApi<{ countBy: PartyCountBy; items: PartySummary[] }>(`/parties?${query}`);
+  },
+
+  getParty: (party: string, params?: { sessionId?: number; house?: string; countBy?: PartyCountBy }) => {
+    const query = new URLSearchParams();
+    if (params?.sessionId) query.set('sessionId', params.sessionId.toString());
+    if (params?.house) query.set('house', params.house);
+    if (params?.countBy) query.set('countBy', params.countBy);
+    return fetchApi<PartyDetail>(`/parties/${encodeURIComponent(party)}?${query}`);
+  },
+
+  // Analytics
+  getBillPassage: (params?: {
+    sessionId?: number;
+    originatingHouse?: string;
+    billType?: number;
+    actsOnly?: boolean;
+    skip?: number;
+    take?: number;
+  }) => {
+    const query = new URLSearchParams();
+    if (params?.sessionId) query.set('sessionId', params.sessionId.toString());
+    if (params?.originatingHouse) query.set('originatingHouse', params.originatingHouse);
+    if (params?.billType) query.set('billType', params.billType.toString());
+    if (params?.actsOnly) query.set('actsOnly', 'true');
+    if (params?.skip) query.set('skip', params.skip.toString());
+    if (params?.take) query.set('take', params.take.toString());
+    return fetchApi<PaginatedResponse<BillPassage>>(`/analytics/bill-passage?${query}`);
+  },
+
+  getPassageDistributions: (params?: {
+    metric?: PassageMetric;
+    groupBy?: PassageGroupBy;
+    originatingHouse?: string;
+    billType?: number;
+  }) => {
+    const query = new URLSearchParams();
+    if (params?.metric) query.set('metric', params.metric);
+    if (params?.groupBy) query.set('groupBy', params.groupBy);
+    if (params?.originatingHouse) query.set('originatingHouse', params.originatingHouse);
+    if (params?.billType) query.set('billType', params.billType.toString());
+    return fetchApi<{ metric: PassageMetric; groupBy: PassageGroupBy; items: PassageDistribution[] }>(
+      `/analytics/bill-passage/distributions?${query}`
+    );
+  },
+
   // Sync
   getSyncStatus: () => fetchApi<SyncStatus>('/sync/status'),
+
+  getSyncRuns: (params?: { type?: string; status?: string; skip?: number; take?: number }) => {
+    const query = new URLSearchParams();
+    if (params?.type) query.set('type', params.type);
+    if (params?.status) query.set('status', params.status);
+    if (params?.skip) query.set('skip', params.skip.toString());
+    if (params?.take) query.set('take', params.take.toString());
+    return fetchApi<PaginatedResponse<SyncRun>>(`/sync/runs?${query}`);
+  },
+
+  getSyncRun: (id: number) => fetchApi<SyncRunDetail>(`/sync/runs/${id}`),
+
+  // Server-sent events URL; each "status" event carries a SyncStatus without database stats
+  getSyncStatusStreamUrl: () => `${API_BASE}/sync/status/stream`,
 };
@@ -0,0 +1,122 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { api, AmendmentChange } from '../../api/client';
+import { DECISION_LABELS } from './AmendmentTable';
+
+interface AmendmentHistoryProps {
+  amendmentId: number;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  billStageId: 'Stage',
+  amendmentNumber: 'Line number',
+  dNum: 'dNum',
+  amendmentType: 'Type',
+  decision: 'Decision',
+  decisionExplanation: 'Decision explanation',
+  summaryText: 'Summary',
+  marshalledListText: 'Marshalled list text',
+};
+
+// Long text fields are summarised rather than shown in full
+const TEXT_FIELDS = new Set(['summaryText', 'marshalledListText', 'decisionExplanation']);
+
+function formatValue(field: string | null, value: string | null): string {
+  if (value === null) return 'none';
+  if (field === 'decision') return DECISION_LABELS[value] || value;
+  if (field && TEXT_FIELDS.has(field) && value.length > 80) return value.slice(0, 80) + '...';
+  return value;
+}
+
+function formatDateTime(dateStr: string): string {
+  return new Date(dateStr).toLocaleString('en-GB', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function ChangeDescription({ change }: { change: AmendmentChange }) {
+  switch (change.changeType) {
+    case 'created':
+      return <span>First seen</span>;
+    case 'removed':
+      return <span>Removed from the Bills API</span>;
+    case 'sponsorAdded':
+    case 'sponsorRemoved': {
+      const memberId = change.newValue ?? change.oldValue;
+      return (
+        <span>
+          {change.changeType === 'sponsorAdded' ? 'Sponsor added: ' : 'Sponsor removed: '}
+          <Link to={`/members/${memberId}`} className="text-gray-900 hover:underline">
+            {change.member?.displayName || `Member ${memberId}`}
+          </Link>
+          {change.member && <span className="text-gray-500"> ({change.member.party})</span>}
+        </span>
+      );
+    }
+    default:
+      return (
+        <span>
+          {FIELD_LABELS[change.field || ''] || change.field}:{' '}
+          <span className="text-gray-500 line-through">{formatValue(change.field, change.oldValue)}</span>
+          {' → '}
+          <span className="font-medium">{formatValue(change.field, change.newValue)}</span>
+        </span>
+      );
+  }
+}
+
+export function AmendmentHistory({ amendmentId }: AmendmentHistoryProps) {
+  const [changes, setChanges] = useState<AmendmentChange[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    api.getAmendmentHistory(amendmentId)
+      .then(res => setChanges(res.items))
+      .catch(console.error)
+      .finally(() => setLoading(false));
+  }, [amendmentId]);
+
+  if (loading) {
+    return <div className="text-sm text-gray-500">Loading history...</div>;
+  }
+
+  if (changes.length === 0) {
+    return <div className="text-sm text-gray-500">No recorded changes.</div>;
+  }
+
+  // Group changes by the sync run that saw them
+  const groups: Array<{ syncLog: AmendmentChange['syncLog']; changes: AmendmentChange[] }> = [];
+  for (const change of changes) {
+    const last = groups[groups.length - 1];
+    if (last && last.syncLog.id === change.syncLog.id) {
+      last.changes.push(change);
+    } else {
+      groups.push({ syncLog: change.syncLog, changes: [change] });
+    }
+  }
+
+  return (
+    <ol className="relative border-l border-gray-300 ml-2 space-y-4">
+      {groups.map(group => (
+        <li key={group.syncLog.id} className="ml-4">
+          <div className="absolute w-2.5 h-2.5 bg-gray-900 rounded-full -left-[5px] mt-1.5" />
+          <div className="text-xs text-gray-500">
+            {formatDateTime(group.syncLog.startedAt)} · {group.syncLog.type} sync #{group.syncLog.id}
+          </div>
+          <ul className="mt-1 space-y-0.5 text-sm text-gray-700">
+            {group.changes.map(change => (
+              <li key={change.id}>
+                <ChangeDescription change={change} />
+              </li>
+            ))}
+          </ul>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -1,12 +1,14 @@
+import { Fragment, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { Amendment } from '../../api/client';
+import { AmendmentHistory } from './AmendmentHistory';
 
 interface AmendmentTableProps {
   amendments: Amendment[];
   loading?: boolean;
 }
 
-const DECISION_LABELS: Record<string, string> = {
+export const DECISION_LABELS: Record<string, string> = {
   'Agreed': 'Agreed',
   'AgreedOnDivision': 'Agreed (Division)',
   'Disagreed': 'Disagreed',
@@ -34,7 +36,7 @@ const DECISION_COLORS: Record<string, string> = {
   'WithdrawnBeforeDebate': 'bg-gray-100 text-gray-800',
 };
 
-function DecisionBadge({ decision }: { decision: string }) {
+export function DecisionBadge({ decision }: { decision: string }) {
   return (
     <span className={`inline-block px-2 py-1 rounded text-xs font-medium whitespace-nowrap ${DECISION_COLORS[decision] || 'bg-gray-100 text-gray-800'}`}>
       {DECISION_LABELS[decision] || decision}
@@ -42,7 +44,37 @@ function DecisionBadge({ decision }: { decision: string }) {
   );
 }
 
+// Render a search snippet, turning <mark> delimiters into highlighted spans
+function HighlightedText({ text }: { text: string }) {
+  const parts = text.split(/<mark>|<\/mark>/);
+  return (
+    <>
+      {parts.map((part, i) =>
+        i % 2 === 1 ? (
+          <mark key={i} className="bg-yellow-200 text-gray-900 rounded-sm">{part}</mark>
+        ) : (
+          <Fragment key={i}>{part}</Fragment>
+        )
+      )}
+    </>
+  );
+}
+
+function SearchSnippet({ amendment }: { amendment: Amendment }) {
+  const snippet = amendment.highlights?.summaryText
+    || amendment.highlights?.marshalledListText
+    || amendment.highlights?.decisionExplanation;
+  if (!snippet) return null;
+  return (
+    <div className="text-sm text-gray-600 max-w-md whitespace-normal">
+      <HighlightedText text={snippet} />
+    </div>
+  );
+}
+
 export function AmendmentTable({ amendments, loading }: AmendmentTableProps) {
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
   if (loading) {
     return (
       <div className="flex justify-center py-12">
@@ -70,54 +102,78 @@ export function AmendmentTable({ amendments, loading }: AmendmentTableProps) {
             <th className="px-4 py-3 text-left text-sm font-medium text-gray-600">Decision</th>
             <th className="px-4 py-3 text-left text-sm font-medium text-gray-600">Sponsors</th>
             <th className="px-4 py-3 text-left text-sm font-medium text-gray-600">Summary</th>
+            <th className="px-4 py-3" />
           </tr>
         </thead>
         <tbody>
           {amendments.map(amendment => (
-            <tr key={amendment.id} className="border-b hover:bg-gray-50">
-              <td className="px-4 py-3 text-sm text-gray-600">
-                {amendment.dNum || '-'}
-              </td>
-              <td className="px-4 py-3">
-                <div className="font-medium text-gray-900 max-w-xs truncate" title={amendment.bill.shortTitle}>
-                  {amendment.bill.shortTitle}
-                </div>
-              </td>
-              <td className="px-4 py-3">
-                <div className="text-sm text-gray-600">{amendment.billStage.description}</div>
-                <div className="text-xs text-gray-400">{amendment.billStage.house}</div>
-              </td>
-              <td className="px-4 py-3">
-                <DecisionBadge decision={amendment.decision} />
-              </td>
-              <td className="px-4 py-3">
-                <div className="flex flex-wrap gap-1">
-                  {amendment.sponsors.slice(0, 3).map((sponsor, i) => (
-                    <Link
-                      key={sponsor.id}
-                      to={`/members/${sponsor.id}`}
-                      className="text-sm text-gray-700 hover:underline"
+            <Fragment key={amendment.id}>
+              <tr className="border-b hover:bg-gray-50">
+                <td className="px-4 py-3 text-sm text-gray-600">
+                  <Link to={`/amendments/${amendment.id}`} className="hover:underline">
+                    {amendment.dNum || amendment.amendmentNumber || 'View'}
+                  </Link>
+                </td>
+                <td className="px-4 py-3">
+                  <div className="font-medium text-gray-900 max-w-xs truncate" title={amendment.bill.shortTitle}>
+                    {amendment.bill.shortTitle}
+                  </div>
+                </td>
+                <td className="px-4 py-3">
+                  <div className="text-sm text-gray-600">{amendment.billStage.description}</div>
+                  <div className="text-xs text-gray-400">{amendment.billStage.house}</div>
+                </td>
+                <td className="px-4 py-3">
+                  <DecisionBadge decision={amendment.decision} />
+                </td>
+                <td className="px-4 py-3">
+                  <div className="flex flex-wrap gap-1">
+                    {amendment.sponsors.slice(0, 3).map((sponsor, i) => (
+                      <Link
+                        key={sponsor.id}
+                        to={`/members/${sponsor.id}`}
+                        className="text-sm text-gray-700 hover:underline"
+                      >
+                        {sponsor.displayName}
+                        {i < Math.min(amendment.sponsors.length, 3) - 1 && ', '}
+                      </Link>
+                    ))}
+                    {amendment.sponsors.length > 3 && (
+                      <span className="text-sm text-gray-500">
+                        +{amendment.sponsors.length - 3} more
+                      </span>
+                    )}
+                  </div>
+                </td>
+                <td className="px-4 py-3">
+                  {amendment.highlights ? (
+                    <SearchSnippet amendment={amendment} />
+                  ) : (
+                    <div
+                      className="text-sm text-gray-600 max-w-md truncate"
+                      title={amendment.summaryText || ''}
                     >
-                      {sponsor.displayName}
-                      {i < Math.min(amendment.sponsors.length, 3) - 1 && ', '}
-                    </Link>
-                  ))}
-                  {amendment.sponsors.length > 3 && (
-                    <span className="text-sm text-gray-500">
-                      +{amendment.sponsors.length - 3} more
-                    </span>
+                      {amendment.summaryText || '-'}
+                    </div>
                   )}
-                </div>
-              </td>
-              <td className="px-4 py-3">
-                <div
-                  className="text-sm text-gray-600 max-w-md truncate"
-                  title={amendment.summaryText || ''}
-                >
-                  {amendment.summaryText || '-'}
-                </div>
-              </td>
-            </tr>
+                </td>
+                <td className="px-4 py-3 text-right">
+                  <button
+                    onClick={() => setExpandedId(expandedId === amendment.id ? null : amendment.id)}
+                    className="text-sm text-gray-600 hover:underline whitespace-nowrap"
+                  >
+                    {expandedId === amendment.id ? 'Hide history' : 'History'}
+                  </button>
+                </td>
+              </tr>
+              {expandedId === amendment.id && (
+                <tr className="border-b bg-gray-50">
+                  <td colSpan={7} className="px-4 py-4">
+                    <AmendmentHistory amendmentId={amendment.id} />
+                  </td>
+                </tr>
+              )}
+            </Fragment>
           ))}
         </tbody>
       </table>
@@ -0,0 +1,191 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { NetworkNode, NetworkEdge } from '../../api/client';
+
+export type NodeSizeMetric = 'weightedDegree' | 'betweenness' | 'eigenvector';
+
+interface NetworkGraphProps {
+  nodes: NetworkNode[];
+  edges: NetworkEdge[];
+  sizeBy: NodeSizeMetric;
+  onSelect?: (node: NetworkNode) => void;
+}
+
+const WIDTH = 900;
+const HEIGHT = 600;
+const ITERATIONS = 300;
+const TICKS_PER_FRAME = 5;
+const MIN_RADIUS = 4;
+const MAX_RADIUS = 18;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+export function partyColour(node: Pick<NetworkNode, 'partyColour'>) {
+  return node.partyColour ? `#${node.partyColour.replace('#', '')}` : '#6b7280';
+}
+
+// One Fruchterman-Reingold step: pairwise repulsion, weighted attraction along
+// edges and a pull towards the centre, with moves capped by the temperature
+function layoutStep(
+  positions: Point[],
+  links: Array<{ source: number; target: number; weight: number }>,
+  temperature: number
+) {
+  const n = positions.length;
+  const k = Math.sqrt((WIDTH * HEIGHT) / Math.max(n, 1)) * 0.6;
+  const dx = new Float64Array(n);
+  const dy = new Float64Array(n);
+
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const ddx = positions[i].x - positions[j].x;
+      const ddy = positions[i].y - positions[j].y;
+      const dist = Math.max(Math.sqrt(ddx * ddx + ddy * ddy), 0.01);
+      const force = (k * k) / dist;
+      dx[i] += (ddx / dist) * force;
+      dy[i] += (ddy / dist) * force;
+      dx[j] -= (ddx / dist) * force;
+      dy[j] -= (ddy / dist) * force;
+    }
+  }
+
+  for (const link of links) {
+    const a = positions[link.source];
+    const b = positions[link.target];
+    const ddx = a.x - b.x;
+    const ddy = a.y - b.y;
+    const dist = Math.max(Math.sqrt(ddx * ddx + ddy * ddy), 0.01);
+    const force = ((dist * dist) / k) * (1 + Math.log(link.weight));
+    dx[link.source] -= (ddx / dist) * force;
+    dy[link.source] -= (ddy / dist) * force;
+    dx[link.target] += (ddx / dist) * force;
+    dy[link.target] += (ddy / dist) * force;
+  }
+
+  for (let i = 0; i < n; i++) {
+    dx[i] -= (positions[i].x - WIDTH / 2) * 0.05 * k / 10;
+    dy[i] -= (positions[i].y - HEIGHT / 2) * 0.05 * k / 10;
+    const len = Math.max(Math.sqrt(dx[i] * dx[i] + dy[i] * dy[i]), 0.01);
+    const step = Math.min(len, temperature);
+    positions[i] = {
+      x: Math.min(WIDTH - MAX_RADIUS, Math.max(MAX_RADIUS, positions[i].x + (dx[i] / len) * step)),
+      y: Math.min(HEIGHT - MAX_RADIUS, Math.max(MAX_RADIUS, positions[i].y + (dy[i] / len) * step)),
+    };
+  }
+}
+
+export function NetworkGraph({ nodes, edges, sizeBy, onSelect }: NetworkGraphProps) {
+  const positionsRef = useRef<Point[]>([]);
+  const [, setFrame] = useState(0);
+  const [hoveredId, setHoveredId] = useState<number | null>(null);
+
+  // Edges as node indexes for the layout
+  const links = useMemo(() => {
+    const index = new Map(nodes.map((n, i) => [n.id, i]));
+    return edges
+      .filter(e => index.has(e.source) && index.has(e.target))
+      .map(e => ({ source: index.get(e.source)!, target: index.get(e.target)!, weight: e.weight, edge: e }));
+  }, [nodes, edges]);
+
+  // Run the layout, a few steps per animation frame, whenever the graph changes
+  useEffect(() => {
+    positionsRef.current = nodes.map((_, i) => {
+      const angle = (2 * Math.PI * i) / Math.max(nodes.length, 1);
+      return {
+        x: WIDTH / 2 + Math.cos(angle) * WIDTH * 0.35,
+        y: HEIGHT / 2 + Math.sin(angle) * HEIGHT * 0.35,
+      };
+    });
+
+    let iteration = 0;
+    let handle = 0;
+    const run = () => {
+      for (let t = 0; t < TICKS_PER_FRAME && iteration < ITERATIONS; t++, iteration++) {
+        const temperature = (WIDTH / 10) * (1 - iteration / ITERATIONS);
+        layoutStep(positionsRef.current, links, temperature);
+      }
+      setFrame(f => f + 1);
+      if (iteration < ITERATIONS) {
+        handle = requestAnimationFrame(run);
+      }
+    };
+    handle = requestAnimationFrame(run);
+    return () => cancelAnimationFrame(handle);
+  }, [nodes, links]);
+
+  const maxMetric = Math.max(...nodes.map(n => n[sizeBy]), 0);
+  const maxWeight = Math.max(...edges.map(e => e.weight), 1);
+  const radius = (node: NetworkNode) =>
+    maxMetric > 0 ? MIN_RADIUS + (MAX_RADIUS - MIN_RADIUS) * Math.sqrt(node[sizeBy] / maxMetric) : MIN_RADIUS;
+
+  const neighbours = useMemo(() => {
+    if (hoveredId === null) return null;
+    const set = new Set<number>([hoveredId]);
+    for (const e of edges) {
+      if (e.source === hoveredId) set.add(e.target);
+      if (e.target === hoveredId) set.add(e.source);
+    }
+    return set;
+  }, [hoveredId, edges]);
+
+  const positions = positionsRef.current;
+  if (positions.length !== nodes.length) return null;
+  const hovered = nodes.find(n => n.id === hoveredId);
+
+  return (
+    <div className="relative">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto bg-gray-50 rounded-lg">
+        <g>
+          {links.map(link => {
+            const { edge } = link;
+            const a = positions[link.source];
+            const b = positions[link.target];
+            const active = !neighbours || (neighbours.has(nodes[link.source].id) && neighbours.has(nodes[link.target].id));
+            return (
+              <line
+                key={`${edge.source}-${edge.target}`}
+                x1={a.x}
+                y1={a.y}
+                x2={b.x}
+                y2={b.y}
+                stroke={edge.crossParty ? '#7c3aed' : '#9ca3af'}
+                strokeWidth={0.5 + 3 * (link.weight / maxWeight)}
+                strokeOpacity={active ? 0.6 : 0.05}
+              />
+            );
+          })}
+        </g>
+        <g>
+          {nodes.map((node, i) => (
+            <circle
+              key={node.id}
+              cx={positions[i].x}
+              cy={positions[i].y}
+              r={radius(node)}
+              fill={partyColour(node)}
+              stroke="#fff"
+              strokeWidth={1.5}
+              opacity={!neighbours || neighbours.has(node.id) ? 1 : 0.2}
+              className="cursor-pointer"
+              onMouseEnter={() => setHoveredId(node.id)}
+              onMouseLeave={() => setHoveredId(null)}
+              onClick={() => onSelect?.(node)}
+            />
+          ))}
+        </g>
+      </svg>
+
+      {hovered && (
+        <div className="absolute top-2 left-2 bg-white border rounded-lg shadow px-3 py-2 text-sm pointer-events-none">
+          <div className="font-medium text-gray-900">{hovered.displayName}</div>
+          <div className="text-gray-600">{hovered.party} · {hovered.house}</div>
+          <div className="text-gray-600">
+            {hovered.degree} co-sponsors · {hovered.weightedDegree} shared signatures
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
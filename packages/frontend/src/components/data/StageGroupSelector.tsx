@@ -0,0 +1,35 @@
+import { StageGroup } from '../../api/client';
+
+// Normalised stage groups in parliamentary order
+export const STAGE_GROUP_LABELS: Record<StageGroup, string> = {
+  firstReading: 'First reading',
+  secondReading: 'Second reading',
+  committee: 'Committee',
+  report: 'Report',
+  thirdReading: 'Third reading',
+  pingPong: 'Ping-pong',
+  royalAssent: 'Royal Assent',
+};
+
+interface StageGroupSelectorProps {
+  value: StageGroup | undefined;
+  onChange: (stageGroup: StageGroup | undefined) => void;
+  className?: string;
+}
+
+export function StageGroupSelector({ value, onChange, className = '' }: StageGroupSelectorProps) {
+  return (
+    <select
+      value={value || ''}
+      onChange={e => onChange((e.target.value || undefined) as StageGroup | undefined)}
+      className={`px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent ${className}`}
+    >
+      <option value="">All Stages</option>
+      {Object.entries(STAGE_GROUP_LABELS).map(([group, label]) => (
+        <option key={group} value={group}>
+          {label}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -7,16 +7,34 @@ const navItems = [
   { path: '/statistics', label: 'Statistics' },
   { path: '/bills', label: 'Bills' },
   { path: '/stages', label: 'Stages' },
+  { path: '/network', label: 'Network' },
+  { path: '/parties', label: 'Parties' },
+  { path: '/admin/sync', label: 'Sync Runs' },
 ];
 
 export function Layout({ children }: { children: React.ReactNode }) {
   const location = useLocation();
   const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+  const isSyncing = syncStatus?.isRunning ?? false;
+  const onSyncPage = location.pathname === '/admin/sync';
 
   useEffect(() => {
     api.getSyncStatus().then(setSyncStatus).catch(console.error);
   }, []);
 
+  // Live progress, streamed only while a sync runs or on the Sync Runs page;
+  // stream events carry everything but the database stats
+  useEffect(() => {
+    if (!isSyncing && !onSyncPage) return;
+
+    const source = new EventSource(api.getSyncStatusStreamUrl());
+    source.addEventListener('status', event => {
+      const update = JSON.parse((event as MessageEvent).data) as Omit<SyncStatus, 'stats'>;
+      setSyncStatus(prev => (prev ? { ...prev, ...update } : prev));
+    });
+    return () => source.close();
+  }, [isSyncing, onSyncPage]);
+
   return (
     <div className="min-h-screen flex flex-col">
       <header className="bg-gray-900 text-white shadow-lg">
@@ -31,6 +49,12 @@ export function Layout({ children }: { children: React.ReactNode }) {
                 <div className="text-gray-300">
                   {syncStatus.stats.amendments.toLocaleString()} amendments
                 </div>
+                {syncStatus.isRunning && syncStatus.currentTask && (
+                  <div className="text-gray-300 text-xs">
+                    {syncStatus.cancelRequested ? 'Cancelling sync: ' : 'Syncing: '}
+                    {syncStatus.currentTask}
+                  </div>
+                )}
                 {(syncStatus.lastFullSync || syncStatus.lastIncrementalSync) && (
                   <div className="text-gray-400 text-xs">
                     Last sync:{' '}
@@ -0,0 +1,174 @@
+import { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { api, AmendmentDetail } from '../../api/client';
+import { DecisionBadge } from '../../components/data/AmendmentTable';
+import { AmendmentHistory } from '../../components/data/AmendmentHistory';
+
+function formatDate(dateStr: string | null) {
+  if (!dateStr) return 'Date not set';
+  return new Date(dateStr).toLocaleDateString('en-GB', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  });
+}
+
+export default function AmendmentDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const [amendment, setAmendment] = useState<AmendmentDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!id) return;
+    setLoading(true);
+    setError(null);
+    api.getAmendment(parseInt(id))
+      .then(setAmendment)
+      .catch(err => {
+        console.error('Failed to load amendment:', err);
+        setError('Failed to load amendment details');
+      })
+      .finally(() => setLoading(false));
+  }, [id]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="w-8 h-8 border-4 border-gray-900 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (error || !amendment) {
+    return (
+      <div className="text-center py-12">
+        <div className="text-red-600 mb-4">{error || 'Amendment not found'}</div>
+        <Link to="/" className="text-gray-700 hover:underline">
+          Back to Amendments
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Amendment header */}
+      <div className="bg-white border rounded-lg p-6">
+        <div className="flex items-start justify-between gap-6">
+          <div>
+            <div className="text-sm text-gray-500">
+              {amendment.amendmentType}
+              {amendment.amendmentNumber && ` · Line ${amendment.amendmentNumber}`}
+            </div>
+            <h2 className="text-2xl font-bold text-gray-900">
+              {amendment.dNum || `Amendment ${amendment.id}`}
+            </h2>
+            <Link
+              to={`/bills/${amendment.bill.id}`}
+              className="text-gray-700 hover:underline font-medium"
+            >
+              {amendment.bill.shortTitle}
+            </Link>
+            <div className="mt-2 flex flex-wrap gap-2">
+              <span className="px-3 py-1 rounded-full bg-gray-100 text-gray-800 text-sm">
+                {amendment.billStage.description}
+              </span>
+              <span className="px-3 py-1 rounded-full bg-gray-100 text-gray-800 text-sm">
+                {amendment.billStage.house}
+              </span>
+              <span className="px-3 py-1 rounded-full bg-gray-100 text-gray-800 text-sm">
+                Session {amendment.bill.sessionName}
+              </span>
+            </div>
+          </div>
+          <div className="text-right">
+            <DecisionBadge decision={amendment.decision} />
+            {amendment.decisionExplanation && (
+              <div className="mt-2 text-sm text-gray-600 max-w-xs">
+                {amendment.decisionExplanation}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          {/* Summary */}
+          <div className="bg-white border rounded-lg p-4">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Summary</h3>
+            {amendment.summaryText ? (
+              <div className="text-sm text-gray-700 whitespace-pre-wrap">{amendment.summaryText}</div>
+            ) : (
+              <div className="text-sm text-gray-500">No summary available</div>
+            )}
+          </div>
+
+          {/* Full text */}
+          <div className="bg-white border rounded-lg p-4">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Marshalled list text</h3>
+            {amendment.marshalledListText ? (
+              <div className="text-sm text-gray-700 whitespace-pre-wrap font-serif leading-relaxed">
+                {amendment.marshalledListText}
+              </div>
+            ) : (
+              <div className="text-sm text-gray-500">Not yet published on a marshalled list</div>
+            )}
+          </div>
+
+          {/* Change history */}
+          <div className="bg-white border rounded-lg p-4">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">History</h3>
+            <AmendmentHistory amendmentId={amendment.id} />
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          {/* Sponsors */}
+          <div className="bg-white border rounded-lg p-4">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">
+              Sponsors ({amendment.sponsors.length})
+            </h3>
+            {amendment.sponsors.length > 0 ? (
+              <ul className="space-y-2">
+                {amendment.sponsors.map(sponsor => (
+                  <li key={sponsor.id} className="flex items-center gap-2">
+                    <span
+                      className="inline-block w-3 h-3 rounded-full flex-shrink-0"
+                      style={{ backgroundColor: sponsor.partyColour ? `#${sponsor.partyColour.replace('#', '')}` : '#6b7280' }}
+                      title={sponsor.party}
+                    />
+                    <Link to={`/members/${sponsor.id}`} className="text-sm text-gray-900 hover:underline">
+                      {sponsor.displayName}
+                    </Link>
+                    <span className="text-xs text-gray-500">{sponsor.party}</span>
+                    {sponsor.isLead && (
+                      <span className="px-1.5 py-0.5 text-xs bg-gray-900 text-white rounded">Lead</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <div className="text-sm text-gray-500">No sponsors recorded</div>
+            )}
+          </div>
+
+          {/* Stage sittings */}
+          <div className="bg-white border rounded-lg p-4">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Stage sittings</h3>
+            {amendment.billStage.sittings.length > 0 ? (
+              <ul className="space-y-1 text-sm text-gray-700">
+                {amendment.billStage.sittings.map(sitting => (
+                  <li key={sitting.id}>{formatDate(sitting.date)}</li>
+                ))}
+              </ul>
+            ) : (
+              <div className="text-sm text-gray-500">No sittings scheduled</div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
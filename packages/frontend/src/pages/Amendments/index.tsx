@@ -1,9 +1,13 @@
 import { useState, useEffect, useCallback } from 'react';
-import { api, Amendment, Member, Bill, StatResult } from '../../api/client';
+import { api, Amendment, Member, Bill, StatResult, StageGroup } from '../../api/client';
 import { MemberAutocomplete } from '../../components/data/MemberAutocomplete';
+import { StageGroupSelector } from '../../components/data/StageGroupSelector';
 import { SessionSelector } from '../../components/data/SessionSelector';
 import { AmendmentTable } from '../../components/data/AmendmentTable';
 
+// Page size used by the CSV export (the API's maximum)
+const EXPORT_PAGE_SIZE = 1000;
+
 // Decision labels for display
 const DECISION_LABELS: Record<string, string> = {
   'Agreed': 'Agreed',
@@ -26,11 +30,16 @@ export default function AmendmentsPage() {
   const [page, setPage] = useState(0);
   const pageSize = 50;
 
+  // Full-text search (input is debounced before querying)
+  const [searchInput, setSearchInput] = useState('');
+  const [q, setQ] = useState('');
+
   // Filters
   const [selectedMember, setSelectedMember] = useState<Member | null>(null);
   const [sessionId, setSessionId] = useState<number | undefined>();
   const [billId, setBillId] = useState<number | undefined>();
   const [decision, setDecision] = useState<string>('');
+  const [stageGroup, setStageGroup] = useState<StageGroup | undefined>();
   const [stage, setStage] = useState<string>('');
   const [house, setHouse] = useState<string>('');
 
@@ -52,6 +61,12 @@ export default function AmendmentsPage() {
       .catch(console.error);
   }, []);
 
+  // Debounce search input
+  useEffect(() => {
+    const timer = setTimeout(() => setQ(searchInput.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
   // Load bills when session changes
   useEffect(() => {
     // Clear bill selection when session changes
@@ -70,27 +85,32 @@ export default function AmendmentsPage() {
 
   // Reset all filters
   const resetFilters = () => {
+    setSearchInput('');
+    setQ('');
     setSelectedMember(null);
     setSessionId(undefined);
     setBillId(undefined);
     setDecision('');
+    setStageGroup(undefined);
     setStage('');
     setHouse('');
     setPage(0);
   };
 
   // Check if any filters are active
-  const hasActiveFilters = selectedMember || sessionId || billId || decision || stage || house;
+  const hasActiveFilters = q || selectedMember || sessionId || billId || decision || stageGroup || stage || house;
 
   // Load amendments
   const loadAmendments = useCallback(async () => {
     setLoading(true);
     try {
       const result = await api.getAmendments({
+        q: q || undefined,
         memberId: selectedMember?.id,
         sessionId,
         billId,
         decision: decision || undefined,
+        stageGroup,
         stage: stage || undefined,
         house: house || undefined,
         skip: page * pageSize,
@@ -103,7 +123,7 @@ export default function AmendmentsPage() {
     } finally {
       setLoading(false);
     }
-  }, [selectedMember, sessionId, billId, decision, stage, house, page]);
+  }, [q, selectedMember, sessionId, billId, decision, stageGroup, stage, house, page]);
 
   useEffect(() => {
     loadAmendments();
@@ -112,23 +132,34 @@ export default function AmendmentsPage() {
   // Reset page when filters change
   useEffect(() => {
     setPage(0);
-  }, [selectedMember, sessionId, billId, decision, stage, house]);
+  }, [q, selectedMember, sessionId, billId, decision, stageGroup, stage, house]);
 
   // Export to CSV
   const exportToCSV = async () => {
     try {
-      const allResults = await api.getAmendments({
-        memberId: selectedMember?.id,
-        sessionId,
-        billId,
-        decision: decision || undefined,
-        stage: stage || undefined,
-        house: house || undefined,
-        take: 100000,
-      });
+      // The API caps the page size, so fetch the results a page at a time
+      const allItems: Amendment[] = [];
+      let exportTotal = Infinity;
+      while (allItems.length < exportTotal) {
+        const page = await api.getAmendments({
+          q: q || undefined,
+          memberId: selectedMember?.id,
+          sessionId,
+          billId,
+          decision: decision || undefined,
+          stageGroup,
+          stage: stage || undefined,
+          house: house || undefined,
+          skip: allItems.length,
+          take: EXPORT_PAGE_SIZE,
+        });
+        if (page.items.length === 0) break;
+        allItems.push(...page.items);
+        exportTotal = page.total;
+      }
 
       const headers = ['dNum', 'Bill', 'Stage', 'House', 'Decision', 'Sponsors', 'Summary'];
-      const rows = allResults.items.map(a => [
+      const rows = allItems.map(a => [
         a.dNum || '',
         a.bill.shortTitle,
         a.billStage.description,
@@ -161,12 +192,28 @@ export default function AmendmentsPage() {
       <div>
         <h2 className="text-2xl font-bold text-gray-900">Amendment Search</h2>
         <p className="text-gray-600 mt-1">
-          Search and filter amendments by member, session, bill, or decision status.
+          Search amendment text, or filter by member, session, bill, or decision status.
         </p>
       </div>
 
       {/* Filters */}
       <div className="bg-gray-50 rounded-lg p-4 space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Search text
+          </label>
+          <input
+            type="search"
+            value={searchInput}
+            onChange={e => setSearchInput(e.target.value)}
+            placeholder={'e.g. "climate change" OR emissions -aviation'}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent"
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            Searches summaries, marshalled list text and decision explanations. Use quotes for phrases, OR for alternatives and - to exclude words.
+          </p>
+        </div>
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -223,6 +270,17 @@ export default function AmendmentsPage() {
             </select>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Stage Group
+            </label>
+            <StageGroupSelector
+              value={stageGroup}
+              onChange={setStageGroup}
+              className="w-full"
+            />
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Stage
@@ -279,16 +337,35 @@ export default function AmendmentsPage() {
           ) : (
             <>
               Showing {amendments.length} of {total.toLocaleString()} amendments
+              {q && ' matching your search, most relevant first'}
             </>
           )}
         </div>
-        <button
-          onClick={exportToCSV}
-          disabled={loading || total === 0}
-          className="px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
-        >
-          Export CSV
-        </button>
+        <div className="flex items-center gap-4">
+          <a
+            href={api.getAmendmentFeedUrl({
+              q: q || undefined,
+              memberId: selectedMember?.id,
+              sessionId,
+              billId,
+              decision: decision || undefined,
+              stageGroup,
+              stage: stage || undefined,
+              house: house || undefined,
+            })}
+            className="text-sm text-gray-700 hover:underline"
+            title="Subscribe to new amendments matching these filters"
+          >
+            Atom feed
+          </a>
+          <button
+            onClick={exportToCSV}
+            disabled={loading || total === 0}
+            className="px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Export CSV
+          </button>
+        </div>
       </div>
 
       {/* Results table */}
@@ -0,0 +1,107 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { api, BillPingPong, PingPongItem } from '../../api/client';
+import { DecisionBadge } from '../../components/data/AmendmentTable';
+
+function formatDate(dateStr: string | null) {
+  if (!dateStr) return 'Date not set';
+  return new Date(dateStr).toLocaleDateString('en-GB', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  });
+}
+
+function ItemCell({ item, byId }: { item: PingPongItem; byId: Map<number, PingPongItem> }) {
+  const respondsTo = item.respondsToId !== null ? byId.get(item.respondsToId) : undefined;
+  const lead = item.sponsors.find(s => s.isLead) ?? item.sponsors[0];
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <Link to={`/amendments/${item.id}`} className="text-sm font-medium text-gray-900 hover:underline">
+          {item.pingPongRef || item.dNum || `#${item.id}`}
+        </Link>
+        <DecisionBadge decision={item.decision} />
+      </div>
+      {item.summaryText && (
+        <div className="text-xs text-gray-600 line-clamp-2" title={item.summaryText}>
+          {item.summaryText}
+        </div>
+      )}
+      <div className="text-xs text-gray-500">
+        {lead && <>{lead.displayName} · </>}
+        {respondsTo ? `responds to ${respondsTo.pingPongRef || `#${respondsTo.id}`}` : 'opens the thread'}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * The back-and-forth between the Houses: one column per round, one row per
+ * amendment thread, plus a row for motions that don't name an amendment.
+ */
+export default function PingPong({ billId }: { billId: number }) {
+  const [pingPong, setPingPong] = useState<BillPingPong | null>(null);
+
+  useEffect(() => {
+    api.getBillPingPong(billId).then(setPingPong).catch(console.error);
+  }, [billId]);
+
+  if (!pingPong) {
+    return <div className="text-sm text-gray-500">Loading ping-pong...</div>;
+  }
+
+  const items = pingPong.stages.flatMap(stage => stage.items);
+  const byId = new Map(items.map(item => [item.id, item]));
+  const roundOf = new Map(pingPong.stages.flatMap(stage => stage.items.map(item => [item.id, stage.round] as const)));
+  const threaded = new Set(pingPong.threads.flatMap(t => t.amendmentIds));
+  const unthreaded = items.filter(item => !threaded.has(item.id));
+
+  const rows = [
+    ...pingPong.threads.map(t => ({ key: t.thread, label: t.label, ids: t.amendmentIds })),
+    ...(unthreaded.length > 0 ? [{ key: 'other', label: 'Other motions', ids: unthreaded.map(i => i.id) }] : []),
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="text-sm text-gray-600">
+        {pingPong.rounds} round{pingPong.rounds === 1 ? '' : 's'} across {pingPong.threads.length} amendment
+        thread{pingPong.threads.length === 1 ? '' : 's'}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full border-collapse">
+          <thead>
+            <tr className="bg-gray-50 border-b">
+              <th className="px-4 py-3 text-left text-sm font-medium text-gray-600">Thread</th>
+              {pingPong.stages.map(stage => (
+                <th key={stage.billStageId} className="px-4 py-3 text-left text-sm font-medium text-gray-600 min-w-[220px]">
+                  <div>Round {stage.round}: {stage.house}</div>
+                  <div className="font-normal text-xs text-gray-500">
+                    {stage.sittings.length > 0 ? stage.sittings.map(s => formatDate(s.date)).join(' · ') : stage.description}
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.key} className="border-b align-top">
+                <td className="px-4 py-3 text-sm text-gray-900 whitespace-nowrap">{row.label}</td>
+                {pingPong.stages.map(stage => (
+                  <td key={stage.billStageId} className="px-4 py-3 space-y-3">
+                    {row.ids
+                      .filter(id => roundOf.get(id) === stage.round)
+                      .map(id => (
+                        <ItemCell key={id} item={byId.get(id)!} byId={byId} />
+                      ))}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { api, BillDetail } from '../../api/client';
+import { DecisionBadge } from '../../components/data/AmendmentTable';
+import PingPong from './PingPong';
+
+const HOUSE_COLORS: Record<string, string> = {
+  Commons: '#22c55e',
+  Lords: '#ef4444',
+};
+
+function formatDate(dateStr: string | null) {
+  if (!dateStr) return 'Date not set';
+  return new Date(dateStr).toLocaleDateString('en-GB', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  });
+}
+
+export default function BillDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const [bill, setBill] = useState<BillDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!id) return;
+    setLoading(true);
+    setError(null);
+    api.getBill(parseInt(id))
+      .then(setBill)
+      .catch(err => {
+        console.error('Failed to load bill:', err);
+        setError('Failed to load bill details');
+      })
+      .finally(() => setLoading(false));
+  }, [id]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="w-8 h-8 border-4 border-gray-900 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (error || !bill) {
+    return (
+      <div className="text-center py-12">
+        <div className="text-red-600 mb-4">{error || 'Bill not found'}</div>
+        <Link to="/bills" className="text-gray-700 hover:underline">
+          Back to Bills
+        </Link>
+      </div>
+    );
+  }
+
+  const totalAmendments = bill.stages.reduce((sum, s) => sum + s.amendmentCount, 0);
+  const hasPingPong = bill.stages.some(s => s.pingPongRound !== null);
+
+  return (
+    <div className="space-y-6">
+      {/* Bill header */}
+      <div className="bg-white border rounded-lg p-6">
+        <div className="flex items-start justify-between gap-6">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">{bill.shortTitle}</h2>
+            {bill.longTitle && (
+              <p className="mt-1 text-sm text-gray-600">{bill.longTitle}</p>
+            )}
+            <div className="mt-3 flex flex-wrap gap-2">
+              <span className="px-3 py-1 rounded-full bg-gray-100 text-gray-800 text-sm">
+                Session {bill.session.name}
+              </span>
+              <span className="px-3 py-1 rounded-full bg-gray-100 text-gray-800 text-sm">
+                Introduced in the {bill.originatingHouse}
+              </span>
+              {bill.billType && (
+                <span className="px-3 py-1 rounded-full bg-gray-100 text-gray-800 text-sm">
+                  {bill.billType.name}
+                </span>
+              )}
+              <span
+                className={`px-3 py-1 rounded-full text-sm ${
+                  bill.currentHouse === 'Commons'
+                    ? 'bg-green-100 text-green-800'
+                    : 'bg-red-100 text-red-800'
+                }`}
+              >
+                Now in the {bill.currentHouse}
+              </span>
+              {bill.isCarryOver && (
+                <span className="px-3 py-1 rounded-full bg-blue-100 text-blue-800 text-sm">
+                  Carried over from {bill.introducedSession?.name || `session ${bill.introducedSessionId}`}
+                </span>
+              )}
+              {bill.isAct && (
+                <span className="px-3 py-1 rounded-full bg-gray-200 text-gray-800 text-sm">Act</span>
+              )}
+              {bill.isWithdrawn && (
+                <span className="px-3 py-1 rounded-full bg-gray-100 text-gray-800 text-sm">Withdrawn</span>
+              )}
+              {bill.isDefeated && (
+                <span className="px-3 py-1 rounded-full bg-red-100 text-red-800 text-sm">Defeated</span>
+              )}
+            </div>
+            {bill.sponsors.length > 0 && (
+              <div className="mt-3 text-sm text-gray-600">
+                Sponsored by{' '}
+                {bill.sponsors.map((sponsor, i) => (
+                  <span key={sponsor.memberId ?? `org-${i}`}>
+                    {i > 0 && ', '}
+                    {sponsor.member ? (
+                      <Link to={`/members/${sponsor.member.id}`} className="text-gray-900 hover:underline">
+                        {sponsor.member.displayName}
+                      </Link>
+                    ) : (
+                      sponsor.organisationName
+                    )}
+                    {sponsor.member && <span className="text-gray-500"> ({sponsor.member.party})</span>}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="text-right">
+            <div className="text-3xl font-bold text-gray-700">{totalAmendments.toLocaleString()}</div>
+            <div className="text-sm text-gray-600">amendments across {bill.stages.length} stages</div>
+          </div>
+        </div>
+      </div>
+
+      {/* Stage-by-stage progression */}
+      <div className="bg-white border rounded-lg p-4">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Progress through Parliament</h3>
+        {bill.stages.length > 0 ? (
+          <ol className="relative border-l border-gray-300 ml-2 space-y-6">
+            {bill.stages.map(stage => (
+              <li key={stage.id} className="ml-6">
+                <span
+                  className="absolute w-3 h-3 rounded-full -left-[7px] mt-1.5"
+                  style={{ backgroundColor: HOUSE_COLORS[stage.house] || '#6b7280' }}
+                />
+                <div className="flex flex-wrap items-baseline justify-between gap-2">
+                  <div>
+                    <span className="font-medium text-gray-900">{stage.description}</span>
+                    <span className="ml-2 text-sm text-gray-500">{stage.house}</span>
+                    {stage.pingPongRound !== null && (
+                      <span className="ml-2 px-2 py-0.5 text-xs bg-blue-100 text-blue-800 rounded">
+                        Ping-pong round {stage.pingPongRound}
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-sm text-gray-600">
+                    <span className="font-bold text-gray-900">{stage.amendmentCount}</span> amendments
+                  </div>
+                </div>
+
+                <div className="mt-1 text-sm text-gray-600">
+                  {stage.sittings.length > 0
+                    ? stage.sittings.map(s => formatDate(s.date)).join(' · ')
+                    : 'No sittings recorded'}
+                </div>
+
+                {Object.keys(stage.decisionBreakdown).length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {Object.entries(stage.decisionBreakdown)
+                      .sort((a, b) => b[1] - a[1])
+                      .map(([decision, count]) => (
+                        <span key={decision} className="inline-flex items-center gap-1 text-sm text-gray-600">
+                          <DecisionBadge decision={decision} />
+                          {count}
+                        </span>
+                      ))}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <div className="text-center py-8 text-gray-500">
+            No stages recorded
+          </div>
+        )}
+      </div>
+
+      {/* Back-and-forth between the Houses */}
+      {hasPingPong && (
+        <div className="bg-white border rounded-lg p-4">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Ping-pong</h3>
+          <PingPong billId={bill.id} />
+        </div>
+      )}
+    </div>
+  );
+}
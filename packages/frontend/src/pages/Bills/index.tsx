@@ -1,18 +1,31 @@
 import { useState, useEffect } from 'react';
-import { api, Bill } from '../../api/client';
+import { Link } from 'react-router-dom';
+import { api, Bill, BillSponsor, BillType, Member } from '../../api/client';
 import { SessionSelector } from '../../components/data/SessionSelector';
+import { MemberAutocomplete } from '../../components/data/MemberAutocomplete';
 
 type BillStatus = 'all' | 'active' | 'acts' | 'withdrawn' | 'defeated';
 
+function sponsorName(sponsor: BillSponsor) {
+  return sponsor.member?.displayName || sponsor.organisationName || 'Unknown';
+}
+
 export default function BillsPage() {
   const [bills, setBills] = useState<Bill[]>([]);
   const [loading, setLoading] = useState(true);
   const [sessionId, setSessionId] = useState<number | undefined>();
   const [status, setStatus] = useState<BillStatus>('active');
+  const [billType, setBillType] = useState<number | undefined>();
+  const [sponsor, setSponsor] = useState<Member | null>(null);
+  const [billTypes, setBillTypes] = useState<BillType[]>([]);
   const [total, setTotal] = useState(0);
   const [page, setPage] = useState(0);
   const pageSize = 50;
 
+  useEffect(() => {
+    api.getBillTypes().then(setBillTypes).catch(console.error);
+  }, []);
+
   useEffect(() => {
     const loadBills = async () => {
       setLoading(true);
@@ -20,6 +33,8 @@ export default function BillsPage() {
         const result = await api.getBills({
           sessionId,
           status,
+          billType,
+          sponsorMemberId: sponsor?.id,
           skip: page * pageSize,
           take: pageSize,
         });
@@ -32,11 +47,11 @@ export default function BillsPage() {
       }
     };
     loadBills();
-  }, [sessionId, status, page]);
+  }, [sessionId, status, billType, sponsor, page]);
 
   useEffect(() => {
     setPage(0);
-  }, [sessionId, status]);
+  }, [sessionId, status, billType, sponsor]);
 
   const totalPages = Math.ceil(total / pageSize);
 
@@ -75,6 +90,34 @@ export default function BillsPage() {
               <option value="defeated">Defeated only</option>
             </select>
           </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Bill type
+            </label>
+            <select
+              value={billType ?? ''}
+              onChange={e => setBillType(e.target.value ? parseInt(e.target.value) : undefined)}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent"
+            >
+              <option value="">All types</option>
+              {billTypes.map(t => (
+                <option key={t.id} value={t.id}>
+                  {t.name} ({t.billCount})
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="min-w-[250px]">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Sponsor
+            </label>
+            <MemberAutocomplete
+              selectedMember={sponsor}
+              onSelect={setSponsor}
+            />
+          </div>
         </div>
       </div>
 
@@ -101,7 +144,9 @@ export default function BillsPage() {
             >
               <div className="flex justify-between items-start mb-2">
                 <h3 className="font-medium text-gray-900 line-clamp-2" title={bill.shortTitle}>
-                  {bill.shortTitle}
+                  <Link to={`/bills/${bill.id}`} className="hover:underline">
+                    {bill.shortTitle}
+                  </Link>
                 </h3>
                 <span
                   className={`ml-2 px-2 py-0.5 text-xs rounded-full whitespace-nowrap ${
@@ -114,8 +159,14 @@ export default function BillsPage() {
                 </span>
               </div>
 
-              <div className="text-sm text-gray-600 mb-3">
-                Session: {bill.sessionName}
+              <div className="text-sm text-gray-600 mb-3 space-y-1">
+                <div>Session: {bill.sessionName}</div>
+                {bill.billType && <div>{bill.billType.name}</div>}
+                {bill.sponsors.length > 0 && (
+                  <div className="truncate" title={bill.sponsors.map(sponsorName).join(', ')}>
+                    Sponsored by {bill.sponsors.map(sponsorName).join(', ')}
+                  </div>
+                )}
               </div>
 
               <div className="flex justify-between items-center pt-3 border-t">
@@ -0,0 +1,247 @@
+import { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { api, Bill, CosponsorshipNetwork } from '../../api/client';
+import { SessionSelector } from '../../components/data/SessionSelector';
+import { NetworkGraph, NodeSizeMetric, partyColour } from '../../components/data/NetworkGraph';
+
+const METRIC_LABELS: Record<NodeSizeMetric, string> = {
+  weightedDegree: 'Shared signatures',
+  betweenness: 'Betweenness',
+  eigenvector: 'Eigenvector',
+};
+
+function formatMetric(metric: NodeSizeMetric, value: number) {
+  return metric === 'weightedDegree' ? value.toLocaleString() : value.toFixed(3);
+}
+
+export default function NetworkPage() {
+  const navigate = useNavigate();
+  const [sessionId, setSessionId] = useState<number | undefined>();
+  const [billId, setBillId] = useState<number | undefined>();
+  const [house, setHouse] = useState<string>('');
+  const [minWeight, setMinWeight] = useState(1);
+  const [sizeBy, setSizeBy] = useState<NodeSizeMetric>('weightedDegree');
+
+  const [bills, setBills] = useState<Bill[]>([]);
+  const [loadingBills, setLoadingBills] = useState(false);
+  const [network, setNetwork] = useState<CosponsorshipNetwork | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // Load bills when session changes
+  useEffect(() => {
+    setBillId(undefined);
+    if (!sessionId) {
+      setBills([]);
+      return;
+    }
+    setLoadingBills(true);
+    api.getBills({ sessionId, take: 500 })
+      .then(res => setBills(res.items))
+      .catch(console.error)
+      .finally(() => setLoadingBills(false));
+  }, [sessionId]);
+
+  // The graph needs a session or bill to keep it a readable size; the House only narrows it
+  const hasScope = Boolean(sessionId || billId);
+
+  useEffect(() => {
+    if (!hasScope) {
+      setNetwork(null);
+      return;
+    }
+    setLoading(true);
+    api.getCosponsorshipNetwork({
+      sessionId,
+      billId,
+      house: house || undefined,
+      minWeight,
+    })
+      .then(setNetwork)
+      .catch(console.error)
+      .finally(() => setLoading(false));
+  }, [hasScope, sessionId, billId, house, minWeight]);
+
+  // Party legend with member counts
+  const partyCounts = new Map<string, { party: string; colour: string; count: number }>();
+  for (const node of network?.nodes ?? []) {
+    const entry = partyCounts.get(node.party) ?? { party: node.party, colour: partyColour(node), count: 0 };
+    entry.count++;
+    partyCounts.set(node.party, entry);
+  }
+  const parties = [...partyCounts.values()].sort((a, b) => b.count - a.count);
+
+  const topMembers = network
+    ? [...network.nodes].sort((a, b) => b[sizeBy] - a[sizeBy]).slice(0, 10)
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Co-sponsorship Network</h2>
+        <p className="text-gray-600 mt-1">
+          Members linked by the amendments they sign together. Purple lines are cross-party links.
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-gray-50 rounded-lg p-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Session
+            </label>
+            <SessionSelector value={sessionId} onChange={setSessionId} />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Bill
+            </label>
+            <select
+              value={billId || ''}
+              onChange={e => setBillId(e.target.value ? parseInt(e.target.value) : undefined)}
+              disabled={!sessionId || loadingBills}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent disabled:bg-gray-100"
+            >
+              <option value="">
+                {!sessionId ? 'Select a session first' : loadingBills ? 'Loading bills...' : 'All Bills'}
+              </option>
+              {bills.map(bill => (
+                <option key={bill.id} value={bill.id}>
+                  {bill.shortTitle}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              House
+            </label>
+            <select
+              value={house}
+              onChange={e => setHouse(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent"
+            >
+              <option value="">Both Houses</option>
+              <option value="Commons">Commons</option>
+              <option value="Lords">Lords</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Minimum shared amendments
+            </label>
+            <input
+              type="number"
+              min={1}
+              value={minWeight}
+              onChange={e => setMinWeight(Math.max(1, parseInt(e.target.value) || 1))}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Node size
+            </label>
+            <select
+              value={sizeBy}
+              onChange={e => setSizeBy(e.target.value as NodeSizeMetric)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent"
+            >
+              {Object.entries(METRIC_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {!hasScope ? (
+        <div className="text-center py-12 text-gray-500">
+          Select a session or bill to build the network.
+        </div>
+      ) : loading ? (
+        <div className="flex justify-center py-12">
+          <div className="w-8 h-8 border-4 border-gray-900 border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : network && network.nodes.length > 0 ? (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-white border rounded-lg p-4">
+              <div className="text-3xl font-bold text-gray-700">{network.summary.nodeCount.toLocaleString()}</div>
+              <div className="text-sm text-gray-600">members</div>
+            </div>
+            <div className="bg-white border rounded-lg p-4">
+              <div className="text-3xl font-bold text-gray-700">{network.summary.edgeCount.toLocaleString()}</div>
+              <div className="text-sm text-gray-600">co-sponsor links</div>
+            </div>
+            <div className="bg-white border rounded-lg p-4">
+              <div className="text-3xl font-bold text-gray-700">
+                {(network.summary.crossPartyEdgeShare * 100).toFixed(1)}%
+              </div>
+              <div className="text-sm text-gray-600">of links are cross-party</div>
+            </div>
+            <div className="bg-white border rounded-lg p-4">
+              <div className="text-3xl font-bold text-gray-700">
+                {(network.summary.crossPartyWeightShare * 100).toFixed(1)}%
+              </div>
+              <div className="text-sm text-gray-600">of shared signatures are cross-party</div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+            {/* Graph */}
+            <div className="lg:col-span-3 bg-white border rounded-lg p-4">
+              <NetworkGraph
+                nodes={network.nodes}
+                edges={network.edges}
+                sizeBy={sizeBy}
+                onSelect={node => navigate(`/members/${node.id}`)}
+              />
+              <div className="mt-3 flex flex-wrap gap-3">
+                {parties.map(p => (
+                  <span key={p.party} className="inline-flex items-center gap-1 text-sm text-gray-600">
+                    <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: p.colour }} />
+                    {p.party} ({p.count})
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            {/* Most central members */}
+            <div className="bg-white border rounded-lg p-4">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">
+                Most central ({METRIC_LABELS[sizeBy].toLowerCase()})
+              </h3>
+              <ol className="space-y-2">
+                {topMembers.map(member => (
+                  <li key={member.id} className="flex items-center justify-between gap-2 text-sm">
+                    <span className="flex items-center gap-2 min-w-0">
+                      <span
+                        className="inline-block w-3 h-3 rounded-full flex-shrink-0"
+                        style={{ backgroundColor: partyColour(member) }}
+                        title={member.party}
+                      />
+                      <Link to={`/members/${member.id}`} className="text-gray-900 hover:underline truncate">
+                        {member.displayName}
+                      </Link>
+                    </span>
+                    <span className="text-gray-600">{formatMetric(sizeBy, member[sizeBy])}</span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          </div>
+        </>
+      ) : (
+        <div className="text-center py-12 text-gray-500">
+          No co-sponsored amendments found. Try lowering the minimum or widening the filters.
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  BarChart,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { api, PartyCountBy, PartyDetail, PartySummary } from '../../api/client';
+import { SessionSelector } from '../../components/data/SessionSelector';
+import { DecisionBadge } from '../../components/data/AmendmentTable';
+import { partyColour } from '../../components/data/NetworkGraph';
+
+// Parties shown in the chart, most amendments first
+const CHART_PARTIES = 12;
+
+function agreedRate(counts: { tabled: number; agreed: number }) {
+  return counts.tabled > 0 ? `${((counts.agreed / counts.tabled) * 100).toFixed(1)}%` : '-';
+}
+
+function PartyPanel({ party, sessionId, house, countBy }: {
+  party: string;
+  sessionId?: number;
+  house?: string;
+  countBy: PartyCountBy;
+}) {
+  const [detail, setDetail] = useState<PartyDetail | null>(null);
+
+  useEffect(() => {
+    setDetail(null);
+    api.getParty(party, { sessionId, house, countBy }).then(setDetail).catch(console.error);
+  }, [party, sessionId, house, countBy]);
+
+  if (!detail) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="w-8 h-8 border-4 border-gray-900 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <span className="w-4 h-4 rounded-full" style={{ backgroundColor: partyColour(detail) }} />
+        <h3 className="text-lg font-medium text-gray-900">{detail.party}</h3>
+        <span className="text-sm text-gray-600">
+          {detail.tabled.toLocaleString()} tabled · {detail.agreed.toLocaleString()} agreed ({agreedRate(detail)}) · {detail.activeMembers} active members
+        </span>
+      </div>
+
+      {Object.keys(detail.decisionBreakdown).length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {Object.entries(detail.decisionBreakdown)
+            .sort((a, b) => b[1] - a[1])
+            .map(([decision, count]) => (
+              <span key={decision} className="inline-flex items-center gap-1 text-sm text-gray-600">
+                <DecisionBadge decision={decision} />
+                {count.toLocaleString()}
+              </span>
+            ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Most active members</h4>
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-sm font-medium text-gray-600">Member</th>
+                <th className="px-4 py-2 text-right text-sm font-medium text-gray-600">Tabled</th>
+                <th className="px-4 py-2 text-right text-sm font-medium text-gray-600">Agreed</th>
+              </tr>
+            </thead>
+            <tbody>
+              {detail.topMembers.map(member => (
+                <tr key={member.id} className="border-t hover:bg-gray-50">
+                  <td className="px-4 py-2 text-sm text-gray-900">
+                    <Link to={`/members/${member.id}`} className="hover:underline">{member.displayName}</Link>
+                    <span className="ml-2 text-gray-500">{member.house}</span>
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-600 text-right">{member.tabled.toLocaleString()}</td>
+                  <td className="px-4 py-2 text-sm text-gray-600 text-right">{member.agreed.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Most amended bills</h4>
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-sm font-medium text-gray-600">Bill</th>
+                <th className="px-4 py-2 text-right text-sm font-medium text-gray-600">Tabled</th>
+                <th className="px-4 py-2 text-right text-sm font-medium text-gray-600">Agreed</th>
+              </tr>
+            </thead>
+            <tbody>
+              {detail.topBills.map(bill => (
+                <tr key={bill.id} className="border-t hover:bg-gray-50">
+                  <td className="px-4 py-2 text-sm text-gray-900">
+                    <Link to={`/bills/${bill.id}`} className="hover:underline">{bill.shortTitle}</Link>
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-600 text-right">{bill.tabled.toLocaleString()}</td>
+                  <td className="px-4 py-2 text-sm text-gray-600 text-right">{bill.agreed.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function PartiesPage() {
+  const [sessionId, setSessionId] = useState<number | undefined>();
+  const [house, setHouse] = useState<string>('');
+  const [countBy, setCountBy] = useState<PartyCountBy>('amendment');
+  const [parties, setParties] = useState<PartySummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selectedParty, setSelectedParty] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    api.getParties({ sessionId, house: house || undefined, countBy })
+      .then(res => setParties(res.items))
+      .catch(console.error)
+      .finally(() => setLoading(false));
+  }, [sessionId, house, countBy]);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Parties</h2>
+        <p className="text-gray-600 mt-1">
+          Amendments tabled and agreed by each party, with its most active members and most amended bills.
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-gray-50 rounded-lg p-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Session
+            </label>
+            <SessionSelector value={sessionId} onChange={setSessionId} />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              House
+            </label>
+            <select
+              value={house}
+              onChange={e => setHouse(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent"
+            >
+              <option value="">Both Houses</option>
+              <option value="Commons">Commons</option>
+              <option value="Lords">Lords</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Count
+            </label>
+            <select
+              value={countBy}
+              onChange={e => setCountBy(e.target.value as PartyCountBy)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent"
+            >
+              <option value="amendment">Amendments any member signed</option>
+              <option value="lead">Lead sponsor only</option>
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="w-8 h-8 border-4 border-gray-900 border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : parties.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">No amendments found.</div>
+      ) : (
+        <>
+          {/* Tabled vs agreed */}
+          <div className="bg-white border rounded-lg p-4">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Tabled and agreed amendments</h3>
+            <div className="h-[400px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart
+                  data={parties.slice(0, CHART_PARTIES)}
+                  layout="vertical"
+                  margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+                >
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis type="number" />
+                  <YAxis dataKey="party" type="category" width={150} tick={{ fontSize: 12 }} />
+                  <Tooltip />
+                  <Legend />
+                  <Bar dataKey="tabled" name="Tabled" fill="#111827" radius={[0, 4, 4, 0]}>
+                    {parties.slice(0, CHART_PARTIES).map(p => (
+                      <Cell key={p.party} fill={partyColour(p)} />
+                    ))}
+                  </Bar>
+                  <Bar dataKey="agreed" name="Agreed" fill="#22c55e" radius={[0, 4, 4, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          {/* Party table */}
+          <div className="bg-white border rounded-lg overflow-x-auto">
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="bg-gray-50 border-b">
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-600">Party</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-600">Tabled</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-600">Agreed</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-600">Agreed rate</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-600">Active members</th>
+                </tr>
+              </thead>
+              <tbody>
+                {parties.map(p => (
+                  <tr
+                    key={p.party}
+                    className={`border-b cursor-pointer ${selectedParty === p.party ? 'bg-gray-100' : 'hover:bg-gray-50'}`}
+                    onClick={() => setSelectedParty(selectedParty === p.party ? null : p.party)}
+                  >
+                    <td className="px-4 py-3 text-sm text-gray-900">
+                      <span className="inline-block w-3 h-3 rounded-full mr-2 align-middle" style={{ backgroundColor: partyColour(p) }} />
+                      {p.party}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600 text-right">{p.tabled.toLocaleString()}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600 text-right">{p.agreed.toLocaleString()}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600 text-right">{agreedRate(p)}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600 text-right">{p.activeMembers.toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {selectedParty ? (
+            <div className="bg-white border rounded-lg p-4">
+              <PartyPanel party={selectedParty} sessionId={sessionId} house={house || undefined} countBy={countBy} />
+            </div>
+          ) : (
+            <div className="text-sm text-gray-500">Select a party for its members and bills.</div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
-import { api, StageWithDate, Session } from '../../api/client';
+import { api, StageWithDate, Session, StageGroup } from '../../api/client';
 import { SessionSelector } from '../../components/data/SessionSelector';
+import { StageGroupSelector } from '../../components/data/StageGroupSelector';
 import TimelineChart from './TimelineChart';
 
 export default function StagesOverTimePage() {
@@ -14,6 +15,7 @@ export default function StagesOverTimePage() {
   // Filters
   const [sessionId, setSessionId] = useState<number | undefined>();
   const [house, setHouse] = useState<string>('');
+  const [stageGroup, setStageGroup] = useState<StageGroup | undefined>();
   const [fromDate, setFromDate] = useState<string>('');
   const [toDate, setToDate] = useState<string>('');
   const [allSessions, setAllSessions] = useState(false);
@@ -43,6 +45,7 @@ export default function StagesOverTimePage() {
       const result = await api.getStagesWithAmendments({
         sessionId: allSessions ? undefined : sessionId,
         house: house || undefined,
+        stageGroup,
         fromDate: fromDate || undefined,
         toDate: toDate || undefined,
         skip: page * pageSize,
@@ -56,7 +59,7 @@ export default function StagesOverTimePage() {
     } finally {
       setLoading(false);
     }
-  }, [sessionId, house, fromDate, toDate, page, allSessions]);
+  }, [sessionId, house, stageGroup, fromDate, toDate, page, allSessions]);
 
   useEffect(() => {
     if (sessionsLoaded) {
@@ -68,7 +71,7 @@ export default function StagesOverTimePage() {
   useEffect(() => {
     setPage(0);
     setTimelineData(null);
-  }, [sessionId, house, fromDate, toDate, allSessions]);
+  }, [sessionId, house, stageGroup, fromDate, toDate, allSessions]);
 
   // Auto-reload timeline when filters change while in timeline view
   useEffect(() => {
@@ -94,6 +97,7 @@ export default function StagesOverTimePage() {
       const allResults = await api.getStagesWithAmendments({
         sessionId: allSessions ? undefined : sessionId,
         house: house || undefined,
+        stageGroup,
         fromDate: fromDate || undefined,
         toDate: toDate || undefined,
         take: 100000,
@@ -132,6 +136,7 @@ export default function StagesOverTimePage() {
       const result = await api.getStagesWithAmendments({
         sessionId: allSessions ? undefined : sessionId,
         house: house || undefined,
+        stageGroup,
         fromDate: fromDate || undefined,
         toDate: toDate || undefined,
         take: 100000,
@@ -200,6 +205,13 @@ export default function StagesOverTimePage() {
             </select>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Stage
+            </label>
+            <StageGroupSelector value={stageGroup} onChange={setStageGroup} className="w-full" />
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               From date
@@ -0,0 +1,341 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import {
+  api,
+  BillPassage as BillPassageRow,
+  BillType,
+  PassageDistribution,
+  PassageGroupBy,
+  PassageMetric,
+} from '../../api/client';
+import { SessionSelector } from '../../components/data/SessionSelector';
+import { STAGE_GROUP_LABELS } from '../../components/data/StageGroupSelector';
+
+const HOUSE_COLORS: Record<string, string> = {
+  Commons: '#22c55e',
+  Lords: '#ef4444',
+};
+
+const GROUP_COLORS = ['#111827', '#3b82f6', '#f59e0b', '#8b5cf6', '#14b8a6', '#ec4899', '#6b7280'];
+
+const METRIC_LABELS: Record<PassageMetric, string> = {
+  royalAssent: 'First reading to Royal Assent',
+  ...Object.fromEntries(
+    Object.entries(STAGE_GROUP_LABELS).map(([group, label]) => [group, `Days in ${label.toLowerCase()}`])
+  ) as Record<Exclude<PassageMetric, 'royalAssent'>, string>,
+};
+
+// Distributions keyed by group, one row per session
+interface SessionRow {
+  sessionName: string;
+  stats: Record<string, PassageDistribution>;
+}
+
+function groupKey(d: PassageDistribution) {
+  return d.group ?? 'All bills';
+}
+
+function formatDays(days: number | null) {
+  return days === null ? '-' : `${Math.round(days).toLocaleString()}d`;
+}
+
+function formatDate(dateStr: string | null) {
+  if (!dateStr) return '-';
+  return new Date(dateStr).toLocaleDateString('en-GB', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  });
+}
+
+// What recharts passes a bar's shape: its rectangle and the row it was drawn from
+interface BarShapeProps {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  payload: SessionRow;
+}
+
+/**
+ * Draw a box plot over a range bar spanning min to max: whiskers to min and
+ * max, a box from the 25th to the 75th percentile, and a median line.
+ */
+function boxShape(group: string, color: string): (props: unknown) => JSX.Element {
+  return (props) => {
+    const { x, y, width, height, payload } = props as BarShapeProps;
+    const stats = payload.stats[group];
+    if (!stats) return <g />;
+
+    const range = stats.max - stats.min;
+    const toY = (value: number) => (range === 0 ? y : y + ((stats.max - value) / range) * height);
+    const centre = x + width / 2;
+    const boxTop = toY(stats.p75);
+    const boxBottom = toY(stats.p25);
+
+    return (
+      <g>
+        <line x1={centre} x2={centre} y1={toY(stats.max)} y2={boxTop} stroke={color} />
+        <line x1={centre} x2={centre} y1={boxBottom} y2={toY(stats.min)} stroke={color} />
+        <line x1={x + width / 4} x2={x + (3 * width) / 4} y1={toY(stats.max)} y2={toY(stats.max)} stroke={color} />
+        <line x1={x + width / 4} x2={x + (3 * width) / 4} y1={toY(stats.min)} y2={toY(stats.min)} stroke={color} />
+        <rect
+          x={x}
+          y={boxTop}
+          width={width}
+          height={Math.max(1, boxBottom - boxTop)}
+          fill={color}
+          fillOpacity={0.25}
+          stroke={color}
+        />
+        <line x1={x} x2={x + width} y1={toY(stats.median)} y2={toY(stats.median)} stroke={color} strokeWidth={2} />
+      </g>
+    );
+  };
+}
+
+function BoxTooltip({ active, payload }: { active?: boolean; payload?: Array<{ payload: SessionRow }> }) {
+  const row = payload?.[0]?.payload;
+  if (!active || !row) return null;
+  return (
+    <div className="bg-white border rounded-lg shadow p-3 text-sm">
+      <div className="font-medium text-gray-900 mb-1">{row.sessionName}</div>
+      {Object.entries(row.stats).map(([group, s]) => (
+        <div key={group} className="text-gray-600">
+          {group}: median {formatDays(s.median)}, middle half {formatDays(s.p25)}–{formatDays(s.p75)} ({s.count} bills)
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function BillPassage() {
+  const [metric, setMetric] = useState<PassageMetric>('royalAssent');
+  const [groupBy, setGroupBy] = useState<PassageGroupBy>('originatingHouse');
+  const [billType, setBillType] = useState<number | undefined>();
+  const [billTypes, setBillTypes] = useState<BillType[]>([]);
+  const [distributions, setDistributions] = useState<PassageDistribution[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Bills in one session, slowest first
+  const [sessionId, setSessionId] = useState<number | undefined>();
+  const [bills, setBills] = useState<BillPassageRow[]>([]);
+
+  useEffect(() => {
+    api.getBillTypes().then(setBillTypes).catch(console.error);
+  }, []);
+
+  useEffect(() => {
+    setLoading(true);
+    api.getPassageDistributions({ metric, groupBy, billType })
+      .then(res => setDistributions(res.items))
+      .catch(console.error)
+      .finally(() => setLoading(false));
+  }, [metric, groupBy, billType]);
+
+  useEffect(() => {
+    if (!sessionId) {
+      setBills([]);
+      return;
+    }
+    api.getBillPassage({ sessionId, billType, actsOnly: true, take: 1000 })
+      .then(res => setBills(
+        res.items
+          .filter(b => b.daysToRoyalAssent !== null)
+          .sort((a, b) => (b.daysToRoyalAssent ?? 0) - (a.daysToRoyalAssent ?? 0))
+      ))
+      .catch(console.error);
+  }, [sessionId, billType]);
+
+  const groups = [...new Set(distributions.map(groupKey))];
+  const rows: SessionRow[] = [];
+  for (const d of distributions) {
+    let row = rows.find(r => r.sessionName === d.sessionName);
+    if (!row) {
+      row = { sessionName: d.sessionName, stats: {} };
+      rows.push(row);
+    }
+    row.stats[groupKey(d)] = d;
+  }
+  const colorOf = (group: string, index: number) => HOUSE_COLORS[group] || GROUP_COLORS[index % GROUP_COLORS.length];
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="bg-gray-50 rounded-lg p-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Measure
+            </label>
+            <select
+              value={metric}
+              onChange={e => setMetric(e.target.value as PassageMetric)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent"
+            >
+              {Object.entries(METRIC_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Compare by
+            </label>
+            <select
+              value={groupBy}
+              onChange={e => setGroupBy(e.target.value as PassageGroupBy)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent"
+            >
+              <option value="originatingHouse">Originating House</option>
+              <option value="billType">Bill type</option>
+              <option value="none">All bills</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Bill type
+            </label>
+            <select
+              value={billType ?? ''}
+              onChange={e => setBillType(e.target.value ? parseInt(e.target.value) : undefined)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent"
+            >
+              <option value="">All types</option>
+              {billTypes.map(t => (
+                <option key={t.id} value={t.id}>{t.name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {/* Box plots by session */}
+      <div className="bg-white border rounded-lg p-4">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">{METRIC_LABELS[metric]} by session</h3>
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="w-8 h-8 border-4 border-gray-900 border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : rows.length > 0 ? (
+          <div className="h-[400px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={rows} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="sessionName" tick={{ fontSize: 12 }} />
+                <YAxis
+                  tick={{ fontSize: 12 }}
+                  label={{ value: 'Days', angle: -90, position: 'insideLeft', style: { fontSize: 12, fill: '#6b7280' } }}
+                />
+                <Tooltip content={<BoxTooltip />} />
+                <Legend />
+                {groups.map((group, index) => (
+                  <Bar
+                    key={group}
+                    name={group}
+                    dataKey={(row: SessionRow) => row.stats[group] ? [row.stats[group].min, row.stats[group].max] : null}
+                    fill={colorOf(group, index)}
+                    shape={boxShape(group, colorOf(group, index))}
+                    isAnimationActive={false}
+                  />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        ) : (
+          <div className="text-center py-8 text-gray-500">No bills with dated stages</div>
+        )}
+      </div>
+
+      {/* Distribution table */}
+      {distributions.length > 0 && (
+        <div className="bg-white border rounded-lg overflow-x-auto">
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="bg-gray-50 border-b">
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-600">Session</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-600">Group</th>
+                <th className="px-4 py-3 text-right text-sm font-medium text-gray-600">Bills</th>
+                <th className="px-4 py-3 text-right text-sm font-medium text-gray-600">10th</th>
+                <th className="px-4 py-3 text-right text-sm font-medium text-gray-600">25th</th>
+                <th className="px-4 py-3 text-right text-sm font-medium text-gray-600">Median</th>
+                <th className="px-4 py-3 text-right text-sm font-medium text-gray-600">75th</th>
+                <th className="px-4 py-3 text-right text-sm font-medium text-gray-600">90th</th>
+                <th className="px-4 py-3 text-right text-sm font-medium text-gray-600">Max</th>
+              </tr>
+            </thead>
+            <tbody>
+              {distributions.map(d => (
+                <tr key={`${d.sessionId}:${d.group}`} className="border-b hover:bg-gray-50">
+                  <td className="px-4 py-2 text-sm text-gray-900">{d.sessionName}</td>
+                  <td className="px-4 py-2 text-sm text-gray-600">{groupKey(d)}</td>
+                  <td className="px-4 py-2 text-sm text-gray-600 text-right">{d.count}</td>
+                  <td className="px-4 py-2 text-sm text-gray-600 text-right">{formatDays(d.p10)}</td>
+                  <td className="px-4 py-2 text-sm text-gray-600 text-right">{formatDays(d.p25)}</td>
+                  <td className="px-4 py-2 text-sm text-gray-900 text-right font-medium">{formatDays(d.median)}</td>
+                  <td className="px-4 py-2 text-sm text-gray-600 text-right">{formatDays(d.p75)}</td>
+                  <td className="px-4 py-2 text-sm text-gray-600 text-right">{formatDays(d.p90)}</td>
+                  <td className="px-4 py-2 text-sm text-gray-600 text-right">{formatDays(d.max)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Acts in a session */}
+      <div className="bg-white border rounded-lg p-4">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">Time to Royal Assent by Act</h3>
+          <SessionSelector value={sessionId} onChange={setSessionId} showAll={false} />
+        </div>
+        {!sessionId ? (
+          <div className="text-center py-8 text-gray-500">Choose a session</div>
+        ) : bills.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">No Acts with dated first reading and Royal Assent</div>
+        ) : (
+          <div className="overflow-x-auto max-h-[400px] overflow-y-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-4 py-2 text-left text-sm font-medium text-gray-600">Act</th>
+                  <th className="px-4 py-2 text-left text-sm font-medium text-gray-600">First reading</th>
+                  <th className="px-4 py-2 text-left text-sm font-medium text-gray-600">Royal Assent</th>
+                  <th className="px-4 py-2 text-right text-sm font-medium text-gray-600">Commons</th>
+                  <th className="px-4 py-2 text-right text-sm font-medium text-gray-600">Lords</th>
+                  <th className="px-4 py-2 text-right text-sm font-medium text-gray-600">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {bills.map(bill => (
+                  <tr key={bill.billId} className="border-t hover:bg-gray-50">
+                    <td className="px-4 py-2 text-sm text-gray-900">
+                      <Link to={`/bills/${bill.billId}`} className="hover:underline">{bill.shortTitle}</Link>
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-600">{formatDate(bill.firstReadingDate)}</td>
+                    <td className="px-4 py-2 text-sm text-gray-600">{formatDate(bill.royalAssentDate)}</td>
+                    <td className="px-4 py-2 text-sm text-gray-600 text-right">{formatDays(bill.daysByHouse.Commons ?? null)}</td>
+                    <td className="px-4 py-2 text-sm text-gray-600 text-right">{formatDays(bill.daysByHouse.Lords ?? null)}</td>
+                    <td className="px-4 py-2 text-sm text-gray-900 text-right font-medium">{formatDays(bill.daysToRoyalAssent)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
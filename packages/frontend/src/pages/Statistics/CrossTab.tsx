@@ -0,0 +1,356 @@
+import { useState, useEffect } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { api, PartyCountBy, PivotCube, PivotDimension, Session, StageGroup } from '../../api/client';
+import { SessionSelector } from '../../components/data/SessionSelector';
+import { StageGroupSelector } from '../../components/data/StageGroupSelector';
+
+const DIMENSION_LABELS: Record<PivotDimension, string> = {
+  bill: 'Bill',
+  stage: 'Stage',
+  decision: 'Decision',
+  party: 'Party',
+  member: 'Member',
+  house: 'House',
+  month: 'Month',
+};
+
+const DIMENSIONS = Object.keys(DIMENSION_LABELS) as PivotDimension[];
+
+const COLUMN_COLORS = [
+  '#111827', '#3b82f6', '#22c55e', '#ef4444', '#f59e0b', '#8b5cf6',
+  '#14b8a6', '#ec4899', '#84cc16', '#0ea5e9', '#f97316', '#a855f7',
+];
+
+// Most frequent values kept per axis; the rest are grouped as Other
+const AXIS_LIMIT = 15;
+
+const selectClass =
+  'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent';
+
+function cellId(keys: string[]) {
+  return JSON.stringify(keys);
+}
+
+/**
+ * Cross-tabulation of amendments over two dimensions, optionally sliced by a
+ * third: a heatmap table and stacked bars of the same counts.
+ */
+export default function CrossTab() {
+  const [rowDimension, setRowDimension] = useState<PivotDimension>('party');
+  const [columnDimension, setColumnDimension] = useState<PivotDimension>('decision');
+  const [sliceDimension, setSliceDimension] = useState<PivotDimension | ''>('');
+  const [sliceKey, setSliceKey] = useState<string>('');
+  const [sessionId, setSessionId] = useState<number | undefined>();
+  const [house, setHouse] = useState<string>('');
+  const [stageGroup, setStageGroup] = useState<StageGroup | undefined>();
+  const [countBy, setCountBy] = useState<PartyCountBy>('lead');
+  const [cube, setCube] = useState<PivotCube | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // The pivot needs a session; start with the current one
+  useEffect(() => {
+    api.getSessions().then((sessions: Session[]) => {
+      const current = sessions.find(s => s.isCurrent);
+      if (current) {
+        setSessionId(current.id);
+      }
+    }).catch(console.error);
+  }, []);
+
+  useEffect(() => {
+    if (!sessionId) {
+      setCube(null);
+      return;
+    }
+    setLoading(true);
+    api.getAmendmentPivot({
+      dimensions: sliceDimension ? [rowDimension, columnDimension, sliceDimension] : [rowDimension, columnDimension],
+      countBy,
+      limit: AXIS_LIMIT,
+      sessionId,
+      house: house || undefined,
+      stageGroup,
+    })
+      .then(result => {
+        setCube(result);
+        // Keep the chosen slice if it is still there, else show the largest
+        const slices = result.axes[2]?.members ?? [];
+        setSliceKey(prev => (slices.some(m => m.key === prev) ? prev : slices[0]?.key ?? ''));
+      })
+      .catch(console.error)
+      .finally(() => setLoading(false));
+  }, [rowDimension, columnDimension, sliceDimension, sessionId, house, stageGroup, countBy]);
+
+  const swap = () => {
+    setRowDimension(columnDimension);
+    setColumnDimension(rowDimension);
+  };
+
+  // Ignore a response still describing the previous dimensions
+  const current = cube && cube.dimensions[0] === rowDimension && cube.dimensions[1] === columnDimension
+    && (cube.dimensions[2] ?? '') === sliceDimension ? cube : null;
+
+  const counts = new Map<string, number>();
+  for (const cell of current?.cells ?? []) {
+    if (sliceDimension && cell.keys[2] !== sliceKey) continue;
+    counts.set(cellId(cell.keys.slice(0, 2)), cell.count);
+  }
+  const countOf = (row: string, column: string) => counts.get(cellId([row, column])) ?? 0;
+
+  const rows = (current?.axes[0].members ?? []).filter(row =>
+    current!.axes[1].members.some(column => countOf(row.key, column.key) > 0)
+  );
+  const columns = (current?.axes[1].members ?? []).filter(column =>
+    rows.some(row => countOf(row.key, column.key) > 0)
+  );
+  const max = Math.max(1, ...counts.values());
+  const colorOf = (index: number) => {
+    const colour = columns[index].colour;
+    return colour ? `#${colour.replace('#', '')}` : COLUMN_COLORS[index % COLUMN_COLORS.length];
+  };
+
+  const chartData = rows.map(row => ({
+    label: row.label,
+    ...Object.fromEntries(columns.map(column => [column.key, countOf(row.key, column.key)])),
+  }));
+
+  const multiValued = countBy === 'amendment' &&
+    [rowDimension, columnDimension].some(d => d === 'party' || d === 'member');
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="bg-gray-50 rounded-lg p-4 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Rows
+            </label>
+            <select
+              value={rowDimension}
+              onChange={e => setRowDimension(e.target.value as PivotDimension)}
+              className={selectClass}
+            >
+              {DIMENSIONS.filter(d => d !== columnDimension && d !== sliceDimension).map(d => (
+                <option key={d} value={d}>{DIMENSION_LABELS[d]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Columns
+            </label>
+            <div className="flex gap-2">
+              <select
+                value={columnDimension}
+                onChange={e => setColumnDimension(e.target.value as PivotDimension)}
+                className={selectClass}
+              >
+                {DIMENSIONS.filter(d => d !== rowDimension && d !== sliceDimension).map(d => (
+                  <option key={d} value={d}>{DIMENSION_LABELS[d]}</option>
+                ))}
+              </select>
+              <button
+                onClick={swap}
+                title="Swap rows and columns"
+                className="px-3 py-2 border border-gray-300 rounded-lg text-gray-600 hover:bg-gray-100"
+              >
+                ⇄
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Slice By
+            </label>
+            <select
+              value={sliceDimension}
+              onChange={e => setSliceDimension(e.target.value as PivotDimension | '')}
+              className={selectClass}
+            >
+              <option value="">None</option>
+              {DIMENSIONS.filter(d => d !== rowDimension && d !== columnDimension).map(d => (
+                <option key={d} value={d}>{DIMENSION_LABELS[d]}</option>
+              ))}
+            </select>
+          </div>
+
+          {sliceDimension && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {DIMENSION_LABELS[sliceDimension]}
+              </label>
+              <select
+                value={sliceKey}
+                onChange={e => setSliceKey(e.target.value)}
+                className={selectClass}
+              >
+                {(current?.axes[2]?.members ?? []).map(m => (
+                  <option key={m.key} value={m.key}>{m.label} ({m.count.toLocaleString()})</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Session
+            </label>
+            <SessionSelector value={sessionId} onChange={setSessionId} showAll={false} />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              House
+            </label>
+            <select
+              value={house}
+              onChange={e => setHouse(e.target.value)}
+              className={selectClass}
+            >
+              <option value="">Both Houses</option>
+              <option value="Commons">Commons</option>
+              <option value="Lords">Lords</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Stage
+            </label>
+            <StageGroupSelector value={stageGroup} onChange={setStageGroup} className="w-full" />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Party and Member Count
+            </label>
+            <select
+              value={countBy}
+              onChange={e => setCountBy(e.target.value as PartyCountBy)}
+              className={selectClass}
+            >
+              <option value="lead">Lead sponsor only</option>
+              <option value="amendment">Every sponsor</option>
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {!sessionId ? (
+        <div className="text-center py-12 text-gray-500">Choose a session</div>
+      ) : loading && !current ? (
+        <div className="flex justify-center py-12">
+          <div className="w-8 h-8 border-4 border-gray-900 border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : rows.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">No amendments found.</div>
+      ) : (
+        <>
+          {/* Heatmap */}
+          <div className="bg-white border rounded-lg p-4">
+            <h3 className="text-lg font-medium text-gray-900 mb-1">
+              {DIMENSION_LABELS[rowDimension]} by {DIMENSION_LABELS[columnDimension]}
+            </h3>
+            <p className="text-sm text-gray-500 mb-4">
+              {current!.total.toLocaleString()} amendments. The {AXIS_LIMIT} most frequent values of each dimension are shown; the rest are grouped as Other.
+              {multiValued && ' Amendments with several sponsors count once for each of their parties or members.'}
+            </p>
+            <div className="overflow-x-auto">
+              <table className="border-collapse text-sm">
+                <thead>
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-gray-600" />
+                    {columns.map(column => (
+                      <th key={column.key} className="px-3 py-2 text-right font-medium text-gray-600 whitespace-nowrap">
+                        {column.label}
+                      </th>
+                    ))}
+                    <th className="px-3 py-2 text-right font-medium text-gray-600">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.key} className="border-t">
+                      <td className="px-3 py-2 text-gray-900 whitespace-nowrap max-w-[250px] truncate" title={row.label}>
+                        {row.label}
+                      </td>
+                      {columns.map(column => {
+                        const count = countOf(row.key, column.key);
+                        const intensity = count / max;
+                        return (
+                          <td
+                            key={column.key}
+                            className={`px-3 py-2 text-right ${intensity > 0.5 ? 'text-white' : 'text-gray-700'}`}
+                            style={{ backgroundColor: count > 0 ? `rgba(17, 24, 39, ${0.08 + intensity * 0.92})` : undefined }}
+                          >
+                            {count > 0 ? count.toLocaleString() : ''}
+                          </td>
+                        );
+                      })}
+                      <td className="px-3 py-2 text-right font-medium text-gray-900">
+                        {columns.reduce((sum, column) => sum + countOf(row.key, column.key), 0).toLocaleString()}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Stacked bars */}
+          <div className="bg-white border rounded-lg p-4">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">
+              {DIMENSION_LABELS[columnDimension]} within each {DIMENSION_LABELS[rowDimension].toLowerCase()}
+            </h3>
+            <div style={{ height: Math.max(300, rows.length * 32 + 80) }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart
+                  data={chartData}
+                  layout="vertical"
+                  margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+                >
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis type="number" />
+                  <YAxis
+                    dataKey="label"
+                    type="category"
+                    width={150}
+                    tick={{ fontSize: 12 }}
+                    tickFormatter={label =>
+                      label.length > 25 ? label.slice(0, 25) + '...' : label
+                    }
+                  />
+                  <Tooltip />
+                  <Legend />
+                  {columns.map((column, index) => (
+                    <Bar
+                      key={column.key}
+                      dataKey={column.key}
+                      name={column.label}
+                      stackId="pivot"
+                      fill={colorOf(index)}
+                    />
+                  ))}
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
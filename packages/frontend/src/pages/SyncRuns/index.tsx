@@ -0,0 +1,270 @@
+import { Fragment, useState, useEffect } from 'react';
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { api, SyncRun, SyncRunDetail } from '../../api/client';
+
+// Runs shown in the chart, oldest on the left
+const CHART_RUNS = 100;
+
+const STATUS_COLORS: Record<string, string> = {
+  completed: 'bg-green-100 text-green-800',
+  running: 'bg-blue-100 text-blue-800',
+  failed: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+};
+
+function formatDuration(ms: number | null) {
+  if (ms === null) return '-';
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.round((ms % 60000) / 1000);
+  if (minutes >= 60) return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
+
+function formatDateTime(dateStr: string) {
+  return new Date(dateStr).toLocaleString('en-GB', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function RunDetail({ runId }: { runId: number }) {
+  const [run, setRun] = useState<SyncRunDetail | null>(null);
+
+  useEffect(() => {
+    api.getSyncRun(runId).then(setRun).catch(console.error);
+  }, [runId]);
+
+  if (!run) {
+    return <div className="text-sm text-gray-500">Loading run...</div>;
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex flex-wrap gap-4 text-gray-600">
+        <span>{run.checkpoints} bills checkpointed</span>
+        <span>{run.billChanges} bill/stage changes</span>
+        <span>{run.amendmentChanges} amendment changes</span>
+        {run.options && <span>Options: {JSON.stringify(run.options)}</span>}
+      </div>
+      {run.error && <div className="text-red-700">{run.error}</div>}
+      {run.errors.length > 0 ? (
+        <ul className="max-h-64 overflow-y-auto space-y-1 font-mono text-xs text-gray-700">
+          {run.errors.map((error, i) => (
+            <li key={i}>{error}</li>
+          ))}
+        </ul>
+      ) : (
+        <div className="text-gray-500">No errors recorded</div>
+      )}
+    </div>
+  );
+}
+
+export default function SyncRunsPage() {
+  const [type, setType] = useState<string>('');
+  const [runs, setRuns] = useState<SyncRun[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [chartRuns, setChartRuns] = useState<SyncRun[]>([]);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const pageSize = 25;
+
+  // Chart data: the latest runs of the selected type
+  useEffect(() => {
+    api.getSyncRuns({ type: type || undefined, take: CHART_RUNS })
+      .then(res => setChartRuns(res.items))
+      .catch(console.error);
+  }, [type]);
+
+  useEffect(() => {
+    setPage(0);
+  }, [type]);
+
+  useEffect(() => {
+    setLoading(true);
+    api.getSyncRuns({ type: type || undefined, skip: page * pageSize, take: pageSize })
+      .then(res => {
+        setRuns(res.items);
+        setTotal(res.total);
+      })
+      .catch(console.error)
+      .finally(() => setLoading(false));
+  }, [type, page]);
+
+  const chartData = [...chartRuns]
+    .filter(run => run.status !== 'running')
+    .reverse()
+    .map(run => ({
+      label: new Date(run.startedAt).toLocaleDateString('en-GB', { day: 'numeric', month: 'short' }),
+      id: run.id,
+      type: run.type,
+      minutes: run.durationMs !== null ? Math.round(run.durationMs / 600) / 100 : 0,
+      errors: run.errorCount,
+    }));
+
+  const totalPages = Math.ceil(total / pageSize);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-end justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Sync Runs</h2>
+          <p className="text-gray-600 mt-1">
+            Duration, API usage and errors of past sync runs.
+          </p>
+        </div>
+        <select
+          value={type}
+          onChange={e => setType(e.target.value)}
+          className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent"
+        >
+          <option value="">All types</option>
+          <option value="full">Full</option>
+          <option value="incremental">Incremental</option>
+          <option value="updated">Updated since</option>
+          <option value="bill">Specific bills</option>
+        </select>
+      </div>
+
+      {/* Duration and errors over time */}
+      <div className="bg-white border rounded-lg p-4">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Duration and errors</h3>
+        {chartData.length > 0 ? (
+          <div className="h-[320px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                <YAxis
+                  yAxisId="minutes"
+                  tick={{ fontSize: 12 }}
+                  label={{ value: 'Minutes', angle: -90, position: 'insideLeft', style: { fontSize: 12, fill: '#6b7280' } }}
+                />
+                <YAxis
+                  yAxisId="errors"
+                  orientation="right"
+                  allowDecimals={false}
+                  tick={{ fontSize: 12 }}
+                  label={{ value: 'Errors', angle: 90, position: 'insideRight', style: { fontSize: 12, fill: '#6b7280' } }}
+                />
+                <Tooltip
+                  labelFormatter={(_, payload) => {
+                    const run = payload?.[0]?.payload;
+                    return run ? `Sync ${run.id} (${run.type})` : '';
+                  }}
+                />
+                <Legend />
+                <Bar yAxisId="minutes" dataKey="minutes" name="Duration (min)" fill="#111827" radius={[4, 4, 0, 0]} />
+                <Line yAxisId="errors" dataKey="errors" name="Errors" stroke="#ef4444" strokeWidth={2} dot={{ r: 2 }} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        ) : (
+          <div className="text-center py-8 text-gray-500">No finished runs yet</div>
+        )}
+      </div>
+
+      {/* Run list */}
+      <div className="bg-white border rounded-lg overflow-hidden">
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="w-8 h-8 border-4 border-gray-900 border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="bg-gray-50 border-b">
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-600">Run</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-600">Started</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-600">Status</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-600">Duration</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-600">Bills</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-600">Amendments</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-600">Removed</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-600">API requests</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-600">Errors</th>
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map(run => (
+                  <Fragment key={run.id}>
+                    <tr
+                      className="border-b hover:bg-gray-50 cursor-pointer"
+                      onClick={() => setExpandedId(expandedId === run.id ? null : run.id)}
+                    >
+                      <td className="px-4 py-3 text-sm text-gray-900">
+                        #{run.id} <span className="text-gray-500">{run.type}</span>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600">{formatDateTime(run.startedAt)}</td>
+                      <td className="px-4 py-3">
+                        <span className={`inline-block px-2 py-1 rounded text-xs font-medium ${STATUS_COLORS[run.status] || 'bg-gray-100 text-gray-800'}`}>
+                          {run.status}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600 text-right">{formatDuration(run.durationMs)}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600 text-right">{run.billsProcessed?.toLocaleString() ?? '-'}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600 text-right">{run.amendmentsProcessed?.toLocaleString() ?? '-'}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600 text-right">{run.amendmentsRemoved?.toLocaleString() ?? '-'}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600 text-right">{run.apiRequests?.toLocaleString() ?? '-'}</td>
+                      <td className={`px-4 py-3 text-sm text-right ${run.errorCount > 0 ? 'text-red-700 font-medium' : 'text-gray-600'}`}>
+                        {run.errorCount}
+                      </td>
+                    </tr>
+                    {expandedId === run.id && (
+                      <tr className="border-b bg-gray-50">
+                        <td colSpan={9} className="px-4 py-4">
+                          <RunDetail runId={run.id} />
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+            {runs.length === 0 && (
+              <div className="text-center py-12 text-gray-500">No sync runs recorded</div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-center gap-2">
+          <button
+            onClick={() => setPage(p => Math.max(0, p - 1))}
+            disabled={page === 0}
+            className="px-4 py-2 border rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Previous
+          </button>
+          <span className="px-4 py-2 text-sm text-gray-600">
+            Page {page + 1} of {totalPages}
+          </span>
+          <button
+            onClick={() => setPage(p => Math.min(totalPages - 1, p + 1))}
+            disabled={page >= totalPages - 1}
+            className="px-4 py-2 border rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
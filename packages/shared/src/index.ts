@@ -21,6 +21,8 @@ export interface ParliamentBill {
   billWithdrawn?: string | null;
   isDefeated: boolean;
   isAct: boolean;
+  // Only returned by the single-bill endpoint, not bill lists
+  sponsors?: ParliamentBillSponsor[];
   currentStage?: {
     id: number;
     stageId: number;
@@ -30,10 +32,42 @@ export interface ParliamentBill {
     stageSittings?: Array<{
       billStageId: number;
       stageId: number;
+      date?: string | null;
     }>;
   };
 }
 
+export interface ParliamentBillSponsor {
+  member?: {
+    memberId: number;
+    name: string;
+    party: string;
+    partyColour?: string;
+    house: string;
+    memberFrom: string;
+    memberPhoto?: string;
+  } | null;
+  organisation?: {
+    name: string;
+    url?: string;
+  } | null;
+  sortOrder: number;
+}
+
+export interface ParliamentBillType {
+  id: number;
+  category: string;
+  name: string;
+  description?: string;
+}
+
+export interface ParliamentStageType {
+  id: number;
+  name: string;
+  house: string;
+  sortOrder: number;
+}
+
 export interface ParliamentBillStage {
   id: number;
   stageId: number;
@@ -127,6 +161,7 @@ export interface Bill {
   isDefeated: boolean;
   isAct: boolean;
   lastUpdate: Date;
+  billTypeId: number | null;
 }
 
 export interface BillStage {
@@ -226,9 +261,12 @@ export interface SyncStatus {
   lastFullSync: Date | null;
   lastIncrementalSync: Date | null;
   isRunning: boolean;
-  currentTask?: string;
+  syncId?: number | null;
+  syncType?: string | null;
+  cancelRequested?: boolean;
+  currentTask?: string | null;
   progress?: {
     current: number;
     total: number;
-  };
+  } | null;
 }